@@ -1,13 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, CheckCircle, XCircle, Clock, Zap, AlertTriangle, BarChart3, Trophy, Target } from 'lucide-react';
+import { Play, CheckCircle, XCircle, Clock, Zap, AlertTriangle, BarChart3, Trophy, Target, Plus, X } from 'lucide-react';
 import AnimatedButton from './AnimatedButton';
 import TestCaseAnimation from './TestCaseAnimation';
 import { codeExecutionService, type ExecutionResult, type TestCase } from '../services/codeExecutionService';
+import { type FunctionSignature } from '../lib/structures';
+import { type TestResult } from '../lib/sandboxRunner';
+import { createCustomTest, loadCustomTests, saveCustomTests, type CustomTest } from '../lib/customTests';
+import VerdictBadge, { VerdictCountList } from './VerdictBadge';
 
 interface CodeExecutionPanelProps {
   code: string;
   testCases: TestCase[];
+  signature?: FunctionSignature;
+  memoryLimitMb?: number;
+  sqlSchema?: string;
+  collectCoverage?: boolean;
+  puzzleKey?: string; // enables the player's own tests, stored per puzzle for the session
+  referenceSolution?: string; // computes expected outputs for the player's own tests
   onExecutionComplete?: (result: ExecutionResult) => void;
   language?: string;
   userId?: string;
@@ -17,6 +27,12 @@ interface CodeExecutionPanelProps {
 const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
   code,
   testCases,
+  signature,
+  memoryLimitMb,
+  sqlSchema,
+  collectCoverage = false,
+  puzzleKey,
+  referenceSolution,
   onExecutionComplete,
   language = 'javascript',
   userId,
@@ -25,6 +41,28 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
   const [isExecuting, setIsExecuting] = useState(false);
   const [result, setResult] = useState<ExecutionResult | null>(null);
   const [showBenchmark, setShowBenchmark] = useState(false);
+  const [customTests, setCustomTests] = useState<CustomTest[]>([]);
+  const [customResults, setCustomResults] = useState<TestResult[]>([]);
+  const [customInput, setCustomInput] = useState('');
+
+  useEffect(() => {
+    setCustomTests(puzzleKey ? loadCustomTests(puzzleKey) : []);
+    setCustomResults([]);
+  }, [puzzleKey]);
+
+  const updateCustomTests = (tests: CustomTest[]) => {
+    setCustomTests(tests);
+    setCustomResults([]);
+    if (puzzleKey) {
+      saveCustomTests(puzzleKey, tests);
+    }
+  };
+
+  const handleAddCustomTest = () => {
+    if (!customInput.trim()) return;
+    updateCustomTests([...customTests, createCustomTest(customInput.trim())]);
+    setCustomInput('');
+  };
 
   const handleExecute = async () => {
     if (!code.trim()) {
@@ -33,6 +71,7 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
 
     setIsExecuting(true);
     setResult(null);
+    setCustomResults([]);
 
     try {
       const executionResult = await codeExecutionService.executeCode(
@@ -44,11 +83,36 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
           timeout: 5000,
           enableCaching: true,
           enableBenchmarking: false, // Enable for detailed analysis
+          signature,
+          memoryLimitMb,
+          sqlSchema,
+          collectCoverage,
         }
       );
 
       setResult(executionResult);
       onExecutionComplete?.(executionResult);
+
+      // The player's tests run separately, after the result has been reported, so they never count
+      if (customTests.length > 0 && executionResult.testResults.length > 0) {
+        try {
+          setCustomResults(await codeExecutionService.executeCustomTests(
+            code,
+            customTests.map(test => test.input),
+            {
+              language,
+              timeout: 5000,
+              signature,
+              memoryLimitMb,
+              sqlSchema,
+              referenceSolution,
+              comparator: testCases[0]?.comparator,
+            }
+          ));
+        } catch (error) {
+          console.warn('⚠️ Custom tests failed to run:', error);
+        }
+      }
     } catch (error) {
       const errorResult: ExecutionResult = {
         passed: false,
@@ -57,6 +121,7 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
         runtimeMs: 0,
         wrongAttempts: 1,
         testResults: [],
+        verdict: 'RE',
         error: error instanceof Error ? error.message : 'Execution failed',
         performanceScore: 0,
         speedBonus: 0,
@@ -119,7 +184,10 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
           {getStatusIcon()}
           <div>
             <h3 className="font-semibold text-gray-900 dark:text-white">Code Execution</h3>
-            <p className={`text-sm ${getStatusColor()}`}>{getStatusText()}</p>
+            <div className="flex items-center space-x-2">
+              {result?.verdict && !isExecuting && <VerdictBadge verdict={result.verdict} />}
+              <p className={`text-sm ${getStatusColor()}`}>{getStatusText()}</p>
+            </div>
           </div>
         </div>
 
@@ -314,14 +382,21 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
 
               {/* Test Results */}
               <div className="space-y-3">
-                <h4 className="font-medium text-gray-900 dark:text-white">Test Results</h4>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-gray-900 dark:text-white">Test Results</h4>
+                  {result.verdictCounts && <VerdictCountList counts={result.verdictCounts} />}
+                </div>
                 {result.testResults.map((testResult, index) => (
                   <TestCaseAnimation
                     key={index}
                     status={testResult.passed ? 'passed' : 'failed'}
+                    verdict={testResult.verdict}
                     input={testResult.input}
                     expected={testResult.expected}
                     actual={testResult.actual}
+                    error={testResult.error}
+                    table={testResult.table}
+                    logs={testResult.logs}
                     index={index}
                   />
                 ))}
@@ -329,6 +404,66 @@ const CodeExecutionPanel: React.FC<CodeExecutionPanelProps> = ({
             </motion.div>
           )}
         </AnimatePresence>
+
+        {/* Player's Own Tests */}
+        {puzzleKey && (
+          <div className="mt-6 space-y-3">
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">Your Tests</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {referenceSolution
+                  ? 'Checked against the reference solution when you run your code. They never count towards your score.'
+                  : 'Your output is shown when you run your code. They never count towards your score.'}
+              </p>
+            </div>
+
+            <div className="flex items-start space-x-2">
+              <textarea
+                value={customInput}
+                onChange={(event) => setCustomInput(event.target.value)}
+                placeholder={testCases[0]?.input ?? 'Input'}
+                rows={1}
+                className="flex-1 px-3 py-2 text-sm font-mono rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+              />
+              <AnimatedButton
+                onClick={handleAddCustomTest}
+                disabled={!customInput.trim()}
+                variant="outline"
+                size="sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </AnimatedButton>
+            </div>
+
+            {customTests.map((test, index) => {
+              const testResult = customResults[index];
+              return (
+                <div key={test.id} className="relative">
+                  <button
+                    onClick={() => updateCustomTests(customTests.filter(other => other.id !== test.id))}
+                    className="absolute top-3 right-12 z-10 text-gray-400 hover:text-red-400"
+                    title="Remove test"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                  <TestCaseAnimation
+                    status={!testResult ? 'pending' : !testResult.passed ? 'failed' : testResult.expected ? 'passed' : 'ran'}
+                    verdict={testResult?.expected || !testResult?.passed ? testResult?.verdict : undefined}
+                    input={test.input}
+                    expected={testResult?.expected ?? ''}
+                    actual={testResult?.actual}
+                    error={testResult?.error}
+                    table={testResult?.table}
+                    logs={testResult?.logs}
+                    index={index}
+                    title={`Your Test ${index + 1}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
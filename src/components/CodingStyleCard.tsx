@@ -0,0 +1,110 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import AnimatedButton from './AnimatedButton';
+import AnimatedCard from './AnimatedCard';
+import { type CodingStyle } from '../lib/codingStyle';
+
+interface CodingStyleCardProps {
+  style: CodingStyle | null;
+  canAnalyze: boolean; // own profile only
+  analyzing?: boolean;
+  onUpload?: (archive: File) => void;
+  className?: string;
+}
+
+const patternLabels: Record<keyof CodingStyle['patterns'], string> = {
+  recursive: 'Recursion',
+  functional: 'Functional',
+  objectOriented: 'Object-oriented',
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const CodingStyleCard: React.FC<CodingStyleCardProps> = ({ style, canAnalyze, analyzing = false, onUpload, className = '' }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = event.target.files?.[0];
+    if (archive) onUpload?.(archive);
+    event.target.value = '';
+  };
+
+  return (
+    <AnimatedCard className={className}>
+      <div className="p-6">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+          Coding Style
+        </h2>
+
+        {style ? (
+          <div className="space-y-4 text-sm">
+            <div>
+              <p className="text-gray-600 dark:text-gray-400 mb-1">Languages</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(style.languages).slice(0, 5).map(([language, share]) => (
+                  <span key={language} className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+                    {language} {percent(share)}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {(Object.keys(patternLabels) as Array<keyof CodingStyle['patterns']>).map(pattern => (
+                <div key={pattern}>
+                  <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                    <span>{patternLabels[pattern]}</span>
+                    <span>{percent(style.patterns[pattern])}</span>
+                  </div>
+                  <div className="h-1.5 rounded bg-gray-200 dark:bg-gray-700">
+                    <div className="h-1.5 rounded bg-blue-500" style={{ width: percent(style.patterns[pattern]) }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between text-gray-600 dark:text-gray-400">
+              <span>Average function: {style.averageFunctionLength} lines</span>
+              <span>Complexity: {percent(style.complexityLevel)}</span>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {style.functionsAnalyzed} functions in {style.filesAnalyzed} files from {style.source},{' '}
+              {new Date(style.analyzedAt).toLocaleDateString()}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {canAnalyze
+              ? 'Upload a repository archive to tailor puzzles to how you code.'
+              : 'No coding style analyzed yet.'}
+          </p>
+        )}
+
+        {canAnalyze && (
+          <>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".tar,.tar.gz,.tgz,application/x-tar,application/gzip"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <AnimatedButton
+              variant="outline"
+              size="sm"
+              className="mt-4 w-full"
+              disabled={analyzing}
+              onClick={() => fileInput.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {analyzing ? 'Analyzing...' : style ? 'Re-analyze from archive' : 'Analyze repository archive'}
+            </AnimatedButton>
+          </>
+        )}
+      </div>
+    </AnimatedCard>
+  );
+};
+
+export default CodingStyleCard;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Code } from 'lucide-react';
+import { Language } from '../types';
+import { LANGUAGE_OPTIONS, type LanguageOption } from '../lib/languages';
+
+interface LanguageSelectorProps {
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+  options?: LanguageOption[]; // defaults to every supported language
+  disabled?: boolean;
+  className?: string;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({
+  language,
+  onLanguageChange,
+  options = LANGUAGE_OPTIONS,
+  disabled = false,
+  className = '',
+}) => {
+  return (
+    <div className={`flex items-center space-x-2 ${className}`}>
+      <Code className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+      <select
+        value={language}
+        onChange={(e) => onLanguageChange(e.target.value as Language)}
+        disabled={disabled}
+        className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 transition-colors duration-300"
+      >
+        {options.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LanguageSelector;
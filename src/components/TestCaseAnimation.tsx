@@ -1,21 +1,35 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, XCircle, Clock } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Terminal } from 'lucide-react';
+import { type ConsoleLog } from '../lib/consoleCapture';
+import { type QueryResult } from '../lib/sqlRuntime';
+import { type Verdict } from '../lib/verdicts';
+import VerdictBadge from './VerdictBadge';
 
 interface TestCaseAnimationProps {
-  status: 'pending' | 'passed' | 'failed';
+  status: 'pending' | 'passed' | 'failed' | 'ran'; // ran: executed with no expected output to check against
+  verdict?: Verdict; // shown as a badge once the test has run
   input: string;
-  expected: string;
+  expected: string; // hidden when empty
   actual?: string;
+  error?: string; // runtime errors and limit verdicts such as "Memory limit exceeded"
+  table?: QueryResult; // rows returned by a SQL submission
+  logs?: ConsoleLog[];
   index: number;
+  title?: string; // defaults to "Test Case <n>"
 }
 
 const TestCaseAnimation: React.FC<TestCaseAnimationProps> = ({
   status,
+  verdict,
   input,
   expected,
   actual,
+  error,
+  table,
+  logs = [],
   index,
+  title,
 }) => {
   const getStatusIcon = () => {
     switch (status) {
@@ -23,6 +37,8 @@ const TestCaseAnimation: React.FC<TestCaseAnimationProps> = ({
         return <CheckCircle className="h-5 w-5 text-green-400" />;
       case 'failed':
         return <XCircle className="h-5 w-5 text-red-400" />;
+      case 'ran':
+        return <Terminal className="h-5 w-5 text-blue-400" />;
       default:
         return <Clock className="h-5 w-5 text-gray-400" />;
     }
@@ -34,6 +50,8 @@ const TestCaseAnimation: React.FC<TestCaseAnimationProps> = ({
         return 'border-green-500/30 bg-green-500/5';
       case 'failed':
         return 'border-red-500/30 bg-red-500/5';
+      case 'ran':
+        return 'border-blue-500/30 bg-blue-500/5';
       default:
         return 'border-gray-700 bg-gray-800/50';
     }
@@ -47,7 +65,10 @@ const TestCaseAnimation: React.FC<TestCaseAnimationProps> = ({
       transition={{ delay: index * 0.1 }}
     >
       <div className="flex items-center justify-between mb-3">
-        <span className="text-sm font-medium text-gray-300">Test Case {index + 1}</span>
+        <div className="flex items-center space-x-2">
+          <span className="text-sm font-medium text-gray-300">{title ?? `Test Case ${index + 1}`}</span>
+          {verdict && status !== 'pending' && <VerdictBadge verdict={verdict} />}
+        </div>
         <motion.div
           initial={{ scale: 0 }}
           animate={{ scale: status !== 'pending' ? 1 : 0 }}
@@ -62,10 +83,18 @@ const TestCaseAnimation: React.FC<TestCaseAnimationProps> = ({
           <span className="text-gray-400">Input:</span>
           <pre className="text-blue-400 mt-1 font-mono">{input}</pre>
         </div>
-        <div>
-          <span className="text-gray-400">Expected:</span>
-          <pre className="text-green-400 mt-1 font-mono">{expected}</pre>
-        </div>
+        {expected && (
+          <div>
+            <span className="text-gray-400">Expected:</span>
+            <pre className="text-green-400 mt-1 font-mono">{expected}</pre>
+          </div>
+        )}
+        {actual && status === 'ran' && (
+          <div>
+            <span className="text-gray-400">Output:</span>
+            <pre className="text-blue-400 mt-1 font-mono">{actual}</pre>
+          </div>
+        )}
         {actual && status === 'failed' && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
@@ -76,6 +105,69 @@ const TestCaseAnimation: React.FC<TestCaseAnimationProps> = ({
             <pre className="text-red-400 mt-1 font-mono">{actual}</pre>
           </motion.div>
         )}
+        {table && table.columns.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            transition={{ delay: 0.3 }}
+          >
+            <span className="text-gray-400">Rows returned:</span>
+            <div className="mt-1 max-h-48 overflow-auto rounded border border-gray-700">
+              <table className="min-w-full font-mono text-xs">
+                <thead className="bg-gray-900/60 text-gray-400">
+                  <tr>
+                    {table.columns.map((column, columnIndex) => (
+                      <th key={columnIndex} className="px-2 py-1 text-left font-medium">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {table.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t border-gray-800">
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="px-2 py-1">
+                          {cell === null ? <span className="text-gray-500">NULL</span> : String(cell)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </motion.div>
+        )}
+        {error && status === 'failed' && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            transition={{ delay: 0.3 }}
+          >
+            <span className="text-gray-400">Error:</span>
+            <pre className="text-red-400 mt-1 font-mono whitespace-pre-wrap">{error}</pre>
+          </motion.div>
+        )}
+        {logs.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            transition={{ delay: 0.4 }}
+          >
+            <span className="flex items-center space-x-1 text-gray-400">
+              <Terminal className="h-3.5 w-3.5" />
+              <span>Console:</span>
+            </span>
+            <pre className="mt-1 p-2 max-h-40 overflow-auto rounded bg-gray-900/60 font-mono text-xs whitespace-pre-wrap">
+              {logs.map((log, logIndex) => (
+                <div
+                  key={logIndex}
+                  className={log.stream === 'stderr' ? 'text-orange-400' : 'text-gray-300'}
+                >
+                  {log.text}
+                </div>
+              ))}
+            </pre>
+          </motion.div>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,41 @@
+import React from 'react';
+import { VERDICT_LABELS, VERDICTS, type Verdict, type VerdictCounts } from '../lib/verdicts';
+
+interface VerdictBadgeProps {
+  verdict: Verdict;
+  count?: number; // shown after the code, e.g. "WA × 2"
+  className?: string;
+}
+
+const verdictStyles: Record<Verdict, string> = {
+  AC: 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700',
+  WA: 'bg-red-100 text-red-800 border-red-300 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700',
+  RE: 'bg-orange-100 text-orange-800 border-orange-300 dark:bg-orange-900/30 dark:text-orange-300 dark:border-orange-700',
+  TLE: 'bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-700',
+  MLE: 'bg-purple-100 text-purple-800 border-purple-300 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-700',
+  CE: 'bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-700/50 dark:text-gray-200 dark:border-gray-600',
+  SV: 'bg-pink-100 text-pink-800 border-pink-300 dark:bg-pink-900/30 dark:text-pink-300 dark:border-pink-700',
+};
+
+const VerdictBadge: React.FC<VerdictBadgeProps> = ({ verdict, count, className = '' }) => (
+  <span
+    className={`inline-flex items-center px-2 py-0.5 rounded border text-xs font-mono font-bold ${verdictStyles[verdict]} ${className}`}
+    title={VERDICT_LABELS[verdict]}
+  >
+    {verdict}
+    {count !== undefined && <span className="ml-1 font-normal">× {count}</span>}
+  </span>
+);
+
+/**
+ * One badge per verdict that occurred, in the usual judge order
+ */
+export const VerdictCountList: React.FC<{ counts: VerdictCounts; className?: string }> = ({ counts, className = '' }) => (
+  <div className={`flex flex-wrap items-center gap-1 ${className}`}>
+    {VERDICTS.filter(verdict => counts[verdict]).map(verdict => (
+      <VerdictBadge key={verdict} verdict={verdict} count={counts[verdict]} />
+    ))}
+  </div>
+);
+
+export default VerdictBadge;
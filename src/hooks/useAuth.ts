@@ -347,6 +347,7 @@ function createDemoUser(): { user: User; profile: Profile } {
     rating: 1350,
     games_played: 15,
     games_won: 9,
+    coding_style: null,
     created_at: new Date().toISOString(),
   };
 
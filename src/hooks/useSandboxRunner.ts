@@ -3,6 +3,7 @@
  */
 import { useState, useEffect, useCallback } from 'react';
 import { codeExecutionService, type TestCase, type ExecutionResult } from '../services/codeExecutionService';
+import { type FunctionSignature } from '../lib/structures';
 
 interface SandboxState {
   initialized: boolean;
@@ -11,7 +12,13 @@ interface SandboxState {
   lastResult: ExecutionResult | null;
 }
 
-export function useSandboxRunner(testCases: TestCase[], initialCode?: string) {
+export function useSandboxRunner(
+  testCases: TestCase[],
+  initialCode?: string,
+  signature?: FunctionSignature,
+  memoryLimitMb?: number,
+  sqlSchema?: string
+) {
   const [state, setState] = useState<SandboxState>({
     initialized: false,
     ready: false,
@@ -67,6 +74,9 @@ export function useSandboxRunner(testCases: TestCase[], initialCode?: string) {
           timeout: 5000,
           enableCaching: true,
           enableBenchmarking: false,
+          signature,
+          memoryLimitMb,
+          sqlSchema,
         }
       );
 
@@ -96,7 +106,7 @@ export function useSandboxRunner(testCases: TestCase[], initialCode?: string) {
       
       throw error;
     }
-  }, [state.ready, testCases]);
+  }, [state.ready, testCases, signature, memoryLimitMb, sqlSchema]);
 
   // Validate code without executing
   const validateCode = useCallback(async (code: string, language = 'javascript') => {
@@ -0,0 +1,276 @@
+/**
+ * Code Sources - Where a player's code comes from for coding-style analysis
+ * A source lists the player's source files; an uploaded repository archive works offline,
+ * and the GitHub API is an optional live source. Local directories are read by localCodeSource.ts.
+ */
+
+export interface SourceFile {
+  path: string; // relative to the repository root
+  content: string;
+}
+
+export interface CodeSource {
+  readonly name: string;
+  listFiles(): Promise<SourceFile[]>;
+}
+
+// Enough code to see someone's habits without reading a monorepo into memory
+export const MAX_SOURCE_FILES = 500;
+export const MAX_SOURCE_FILE_BYTES = 200_000;
+
+// Archives are unpacked in memory, so a small upload must not expand without bound
+export const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+export const MAX_ARCHIVE_ENTRIES = 50_000;
+
+// Vendored, generated and build output says nothing about how the player writes code
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', 'vendor', 'dist', 'build', 'out', 'coverage', '__pycache__', '.venv', 'venv']);
+const IGNORED_FILE_PATTERN = /\.min\.[a-z]+$|\.d\.ts$|\.bundle\.js$/;
+
+export const SOURCE_EXTENSIONS: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python',
+  sql: 'sql',
+  java: 'java', kt: 'kotlin', go: 'go', rs: 'rust', rb: 'ruby', php: 'php', swift: 'swift', cs: 'csharp',
+  c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp',
+};
+
+/**
+ * Language of a source path from its extension, or undefined for files that are not analyzed
+ */
+export function sourceLanguage(path: string): string | undefined {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return path.includes('.') ? SOURCE_EXTENSIONS[extension] : undefined;
+}
+
+export function isIgnoredDirectory(name: string): boolean {
+  return IGNORED_DIRECTORIES.has(name);
+}
+
+/**
+ * Whether a file is worth analyzing: a known source language, not too large and not in a vendored or build directory
+ */
+export function isAnalyzableSource(path: string, size: number): boolean {
+  const segments = path.split('/');
+  return size <= MAX_SOURCE_FILE_BYTES &&
+    !segments.slice(0, -1).some(isIgnoredDirectory) &&
+    !IGNORED_FILE_PATTERN.test(path) &&
+    sourceLanguage(path) !== undefined;
+}
+
+/**
+ * Decode file contents, or return null for binary data
+ */
+export function decodeSource(bytes: Uint8Array): string | null {
+  if (bytes.subarray(0, 8000).includes(0)) return null;
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * A .tar or .tar.gz repository archive, such as `git archive` output or an uploaded export
+ */
+export class TarballSource implements CodeSource {
+  readonly name = 'tarball';
+
+  constructor(private readonly archive: Uint8Array) {}
+
+  async listFiles(): Promise<SourceFile[]> {
+    const tar = isGzip(this.archive) ? await gunzip(this.archive) : this.archive;
+    if (tar.length > MAX_ARCHIVE_BYTES) {
+      throw archiveTooLarge();
+    }
+    const entries = [...readTarEntries(tar)];
+    const root = archiveRoot(entries.map(entry => entry.path));
+    const files: SourceFile[] = [];
+
+    for (const entry of entries) {
+      const path = entry.path.replace(/^\.\//, '').slice(root.length);
+      if (!isAnalyzableSource(path, entry.data.length)) continue;
+
+      const content = decodeSource(entry.data);
+      if (content !== null) files.push({ path, content });
+      if (files.length >= MAX_SOURCE_FILES) break;
+    }
+
+    return files;
+  }
+}
+
+export interface GitHubSourceOptions {
+  token?: string; // raises the API rate limit; public repositories need none
+  maxRepos?: number;
+  maxFiles?: number;
+}
+
+/**
+ * A user's most recently pushed public repositories, read through the GitHub API. Forks are skipped.
+ */
+export class GitHubSource implements CodeSource {
+  readonly name = 'github';
+
+  constructor(private readonly username: string, private readonly options: GitHubSourceOptions = {}) {}
+
+  async listFiles(): Promise<SourceFile[]> {
+    const maxFiles = this.options.maxFiles ?? 200;
+    const repos = await this.request<Array<{ full_name: string; default_branch: string; fork: boolean }>>(
+      `/users/${encodeURIComponent(this.username)}/repos?sort=pushed&per_page=${this.options.maxRepos ?? 10}`
+    );
+    const files: SourceFile[] = [];
+
+    for (const repo of repos.filter(repo => !repo.fork)) {
+      const { tree } = await this.request<{ tree: Array<{ path: string; type: string; size?: number }> }>(
+        `/repos/${repo.full_name}/git/trees/${encodeURIComponent(repo.default_branch)}?recursive=1`
+      );
+
+      for (const item of tree) {
+        if (files.length >= maxFiles) return files;
+        if (item.type !== 'blob' || !isAnalyzableSource(item.path, item.size ?? 0)) continue;
+
+        const response = await fetch(`https://raw.githubusercontent.com/${repo.full_name}/${repo.default_branch}/${item.path}`);
+        if (!response.ok) continue;
+        const content = decodeSource(new Uint8Array(await response.arrayBuffer()));
+        if (content !== null) files.push({ path: `${repo.full_name}/${item.path}`, content });
+      }
+    }
+
+    return files;
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    const response = await fetch(`https://api.github.com${path}`, {
+      headers: {
+        Accept: 'application/vnd.github+json',
+        ...(this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {}),
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+interface TarEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+/**
+ * Regular files in a tar archive. Handles ustar name prefixes and the pax and GNU long-name headers git and tar write.
+ * Throws once the archive has more than MAX_ARCHIVE_ENTRIES entries.
+ */
+function* readTarEntries(tar: Uint8Array): Generator<TarEntry> {
+  let offset = 0;
+  let count = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (isEndOfArchive(header)) break;
+    if (++count > MAX_ARCHIVE_ENTRIES) {
+      throw tooManyEntries();
+    }
+
+    const size = tarEntrySize(header);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const data = tar.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+    } else if (type === 'x') {
+      longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(new TextDecoder().decode(data))?.[1] ?? longName;
+    } else if (type === '0' || type === '\0') {
+      yield { path: longName ?? (prefix ? `${prefix}/${name}` : name), data };
+      longName = undefined;
+    } else if (type !== 'g') {
+      longName = undefined;
+    }
+  }
+}
+
+function tarEntrySize(header: Uint8Array): number {
+  return parseInt(readString(header, 124, 12).trim() || '0', 8);
+}
+
+function isEndOfArchive(header: Uint8Array): boolean {
+  return header.every(byte => byte === 0);
+}
+
+function readString(bytes: Uint8Array, start: number, length: number): string {
+  const field = bytes.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * The top-level directory every file sits in, e.g. "repo-main/" in a GitHub export, or "" when there is none
+ */
+function archiveRoot(paths: string[]): string {
+  const roots = new Set(paths.map(path => {
+    const segments = path.replace(/^\.\//, '').split('/');
+    return segments.length > 1 ? `${segments[0]}/` : '';
+  }));
+  return roots.size === 1 ? [...roots][0] : '';
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Decompress a gzipped archive, stopping as soon as it grows past MAX_ARCHIVE_BYTES or the tar
+ * headers read so far add up to more than MAX_ARCHIVE_ENTRIES, so a gzip bomb is never fully inflated
+ */
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  let buffer = new Uint8Array(Math.min(bytes.length * 4, MAX_ARCHIVE_BYTES));
+  let length = 0;
+  let nextHeader = 0;
+  let entries = 0;
+  let ended = false;
+
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      const end = length + chunk.value.length;
+      if (end > MAX_ARCHIVE_BYTES) {
+        throw archiveTooLarge();
+      }
+      if (end > buffer.length) {
+        const grown = new Uint8Array(Math.min(Math.max(buffer.length * 2, end), MAX_ARCHIVE_BYTES));
+        grown.set(buffer.subarray(0, length));
+        buffer = grown;
+      }
+      buffer.set(chunk.value, length);
+      length = end;
+
+      // Entries are counted as their headers arrive; readTarEntries parses them once decompression is done
+      while (!ended && nextHeader + 512 <= length) {
+        const header = buffer.subarray(nextHeader, nextHeader + 512);
+        if (isEndOfArchive(header)) {
+          ended = true;
+        } else if (++entries > MAX_ARCHIVE_ENTRIES) {
+          throw tooManyEntries();
+        } else {
+          nextHeader += 512 + Math.ceil(tarEntrySize(header) / 512) * 512;
+        }
+      }
+    }
+  } catch (error) {
+    // Stop the decompressor rather than let it inflate the rest of the archive
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  return buffer.subarray(0, length);
+}
+
+function archiveTooLarge(): Error {
+  return new Error(`Archive is larger than ${MAX_ARCHIVE_BYTES / 1024 / 1024}MB once decompressed`);
+}
+
+function tooManyEntries(): Error {
+  return new Error(`Archive has more than ${MAX_ARCHIVE_ENTRIES} entries`);
+}
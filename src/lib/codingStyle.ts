@@ -0,0 +1,215 @@
+/**
+ * Coding Style - Habits measured from a player's own code
+ * Reads files from any CodeSource and measures the language mix, function length, how often
+ * recursion, functional and object-oriented patterns show up, and an overall complexity level.
+ * Functions are found with line-based heuristics for JavaScript, TypeScript and Python;
+ * other languages only count towards the language mix.
+ */
+import { type Language } from '../types';
+import { sourceLanguage, type CodeSource, type SourceFile } from './codeSources';
+
+export interface CodingStylePatterns {
+  recursive: number; // share of functions that call themselves, 0-1
+  functional: number; // share using higher-order functions, lambdas or comprehensions
+  objectOriented: number; // share that are methods or work on this/self
+}
+
+export interface CodingStyle {
+  languages: Record<string, number>; // language → share of source lines, 0-1
+  averageFunctionLength: number; // lines
+  patterns: CodingStylePatterns;
+  complexityLevel: number; // 0-1, from branching per function and function length
+  filesAnalyzed: number;
+  functionsAnalyzed: number;
+  source: string; // the CodeSource it came from
+  analyzedAt: string;
+}
+
+interface FunctionInfo {
+  name?: string;
+  body: string; // everything after the header line
+  length: number;
+  isMethod: boolean;
+}
+
+// A function with this many branches, or this many lines, counts as fully complex
+const COMPLEX_BRANCHES = 10;
+const COMPLEX_LENGTH = 40;
+
+// Parameter lists longer than this are not worth finding the body of
+const MAX_HEADER_LINES = 10;
+
+const PUZZLE_LANGUAGES: Language[] = ['javascript', 'typescript', 'python', 'sql'];
+
+const JS_FUNCTION_PATTERNS = [
+  /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)?\s*\(/,
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/,
+];
+const JS_METHOD_PATTERN =
+  /^\s*(?:(?:public|private|protected|static|async|get|set|override|readonly)\s+)*([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/;
+const JS_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'with']);
+const PYTHON_FUNCTION_PATTERN = /^(\s*)(?:async\s+)?def\s+(\w+)\s*\(([^)]*)/;
+
+const BRANCH_PATTERN = /\b(?:if|elif|for|while|case|catch|except)\b|&&|\|\||\?(?![.?:])|\b(?:and|or)\b/g;
+const FUNCTIONAL_PATTERNS: Record<'js' | 'python', RegExp> = {
+  js: /\.(?:map|filter|reduce|flatMap|some|every|forEach|find)\(|=>/,
+  python: /\blambda\b|\b(?:map|filter|reduce)\(|\bfunctools\b|\[[^\]]*\bfor\b[^\]]*\bin\b[^\]]*\]/,
+};
+
+/**
+ * Read every file from a source and measure it
+ */
+export async function analyzeCodingStyle(source: CodeSource): Promise<CodingStyle> {
+  const files = await source.listFiles();
+  if (files.length === 0) {
+    throw new Error(`No source files found in ${source.name}`);
+  }
+  return analyzeSourceFiles(files, source.name);
+}
+
+export function analyzeSourceFiles(files: SourceFile[], sourceName: string): CodingStyle {
+  const lineCounts: Record<string, number> = {};
+  const functions: Array<FunctionInfo & { flavour: 'js' | 'python' }> = [];
+
+  for (const file of files) {
+    const language = sourceLanguage(file.path);
+    if (!language) continue;
+
+    const lines = file.content.split('\n');
+    lineCounts[language] = (lineCounts[language] ?? 0) + lines.filter(line => line.trim() !== '').length;
+
+    if (language === 'javascript' || language === 'typescript') {
+      functions.push(...findJsFunctions(lines).map(fn => ({ ...fn, flavour: 'js' as const })));
+    } else if (language === 'python') {
+      functions.push(...findPythonFunctions(lines).map(fn => ({ ...fn, flavour: 'python' as const })));
+    }
+  }
+
+  const totalLines = Object.values(lineCounts).reduce((sum, count) => sum + count, 0);
+  const languages = Object.fromEntries(
+    Object.entries(lineCounts)
+      .sort(([, a], [, b]) => b - a)
+      .filter(([, count]) => totalLines > 0 && count / totalLines >= 0.005)
+      .map(([language, count]) => [language, round(totalLines > 0 ? count / totalLines : 0)])
+  );
+
+  const share = (predicate: (fn: typeof functions[number]) => boolean) =>
+    functions.length > 0 ? round(functions.filter(predicate).length / functions.length) : 0;
+
+  const averageLength = average(functions.map(fn => fn.length));
+  const averageBranches = average(functions.map(fn => (fn.body.match(BRANCH_PATTERN) ?? []).length));
+
+  return {
+    languages,
+    averageFunctionLength: round(averageLength, 1),
+    patterns: {
+      recursive: share(fn => fn.name !== undefined && callsItself(fn.name, fn.body)),
+      functional: share(fn => FUNCTIONAL_PATTERNS[fn.flavour].test(fn.body)),
+      objectOriented: share(fn => fn.isMethod || /\b(?:this|self|cls)\./.test(fn.body)),
+    },
+    complexityLevel: functions.length > 0
+      ? round(0.7 * Math.min(averageBranches / COMPLEX_BRANCHES, 1) + 0.3 * Math.min(averageLength / COMPLEX_LENGTH, 1))
+      : 0,
+    filesAnalyzed: files.length,
+    functionsAnalyzed: functions.length,
+    source: sourceName,
+    analyzedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The puzzle language the player writes most, if they write any
+ */
+export function preferredPuzzleLanguage(style: CodingStyle): Language | undefined {
+  // languages is sorted by share, so the first puzzle language is the most used one
+  return Object.keys(style.languages).find((language): language is Language => PUZZLE_LANGUAGES.includes(language as Language));
+}
+
+function findJsFunctions(lines: string[]): FunctionInfo[] {
+  const code = lines.map(line => stripStringsAndComments(line, /\/\/.*$/));
+  const functions: FunctionInfo[] = [];
+
+  code.forEach((line, start) => {
+    const declared = JS_FUNCTION_PATTERNS.map(pattern => pattern.exec(line)).find(match => match !== null);
+    const method = declared ? null : JS_METHOD_PATTERN.exec(line);
+    if (!declared && (!method || JS_KEYWORDS.has(method[1]))) return;
+
+    // Arrow functions with an expression body end on their own line
+    const afterHeader = declared ? line.slice(declared.index + declared[0].length) : '';
+    if (declared?.[0].endsWith('=>') && /^\s*[^\s{]/.test(afterHeader)) {
+      functions.push({ name: (declared ?? method)?.[1], body: line, length: 1, isMethod: false });
+      return;
+    }
+
+    // Parameters may span several lines, so the body starts at the first brace rather than on this line
+    let depth = 0;
+    let opened = false;
+    let end = start;
+    for (; end < code.length; end++) {
+      for (const char of code[end]) {
+        if (char === '{') {
+          depth++;
+          opened = true;
+        }
+        if (char === '}') depth--;
+      }
+      if (opened ? depth <= 0 : end - start >= MAX_HEADER_LINES) break;
+    }
+
+    functions.push({
+      name: (declared ?? method)?.[1],
+      body: code.slice(start + 1, end + 1).join('\n'),
+      length: Math.min(end, code.length - 1) - start + 1,
+      isMethod: method !== null,
+    });
+  });
+
+  return functions;
+}
+
+function findPythonFunctions(lines: string[]): FunctionInfo[] {
+  const functions: FunctionInfo[] = [];
+
+  lines.forEach((line, start) => {
+    const match = PYTHON_FUNCTION_PATTERN.exec(line);
+    if (!match) return;
+
+    const indent = match[1].length;
+    let end = start + 1;
+    while (end < lines.length && (lines[end].trim() === '' || lines[end].search(/\S/) > indent)) end++;
+    // Trailing blank lines belong to whatever comes next
+    while (end > start + 1 && lines[end - 1].trim() === '') end--;
+
+    functions.push({
+      name: match[2],
+      body: lines.slice(start + 1, end).map(bodyLine => stripStringsAndComments(bodyLine, /#.*$/)).join('\n'),
+      length: end - start,
+      isMethod: /^\s*(?:self|cls)\b/.test(match[3]),
+    });
+  });
+
+  return functions;
+}
+
+// Braces, keywords and calls inside strings and comments are not code
+function stripStringsAndComments(line: string, comment: RegExp): string {
+  return line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""').replace(comment, '');
+}
+
+// A call to the same name on another object, like list.sort() inside sort(), is not recursion
+function callsItself(name: string, body: string): boolean {
+  return new RegExp(`(?:^|[^\\w$.]|\\b(?:this|self)\\.)${escapeRegExp(name)}\\s*\\(`, 'm').test(body);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,148 @@
+/**
+ * Comparators - Per-puzzle rules for deciding whether an answer matches the expected output
+ * Tests without a comparator fall back to the runner's general-purpose equality heuristics
+ */
+
+export type ComparatorSpec =
+  | { type: 'exact' } // deep equality, no coercion
+  | { type: 'numeric'; tolerance?: number } // every number may differ by the tolerance, absolute or relative
+  | { type: 'unordered' } // top-level array elements in any order
+  | { type: 'set-of-arrays' } // array of arrays, ignoring order both outside and inside
+  | { type: 'multiline-trimmed' } // text compared line by line, ignoring trailing whitespace
+  | { type: 'custom'; checker: string }; // (actual, expected, input) => boolean, run in the sandbox
+
+export type BuiltInComparatorSpec = Exclude<ComparatorSpec, { type: 'custom' }>;
+
+export const DEFAULT_TOLERANCE = 1e-6;
+
+/**
+ * Compare an answer using one of the built-in comparators
+ */
+export function compareAnswer(actual: unknown, expected: string, spec: BuiltInComparatorSpec): boolean {
+  const expectedValue = parseExpected(expected);
+
+  switch (spec.type) {
+    case 'exact':
+      return deepEqual(actual, expectedValue);
+    case 'numeric':
+      return numericEqual(actual, expectedValue, spec.tolerance ?? DEFAULT_TOLERANCE);
+    case 'unordered':
+      return Array.isArray(actual) && Array.isArray(expectedValue) &&
+        sameMultiset(actual.map(canonicalKey), expectedValue.map(canonicalKey));
+    case 'set-of-arrays':
+      return isArrayOfArrays(actual) && isArrayOfArrays(expectedValue) &&
+        sameMultiset(actual.map(unorderedKey), expectedValue.map(unorderedKey));
+    case 'multiline-trimmed':
+      return typeof actual === 'string' && typeof expectedValue === 'string' &&
+        normalizeLines(actual) === normalizeLines(expectedValue);
+  }
+}
+
+/**
+ * Expected outputs are stored as JSON where possible, and as raw text otherwise
+ */
+export function parseExpected(expected: string): unknown {
+  try {
+    return JSON.parse(expected);
+  } catch {
+    return expected;
+  }
+}
+
+/**
+ * Wrap a puzzle-supplied checker so it can be executed in the JavaScript sandbox
+ */
+export function createCheckerWrapper(checker: string): string {
+  return `
+const __checker = (${checker});
+return __checker(__args[0], __args[1], __args[2]);
+`;
+}
+
+/**
+ * Deep equality check for objects and arrays
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a === b;
+  if (typeof a !== typeof b) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!deepEqual(a[i], b[i])) return false;
+    }
+    return true;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+    for (const key of keysA) {
+      if (!keysB.includes(key) || !deepEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+
+  return false;
+}
+
+// Private helpers
+
+function numericEqual(actual: unknown, expected: unknown, tolerance: number): boolean {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    if (Number.isNaN(actual) || Number.isNaN(expected)) return Number.isNaN(actual) && Number.isNaN(expected);
+    if (actual === expected) return true;
+    return Math.abs(actual - expected) <= Math.max(tolerance, tolerance * Math.abs(expected));
+  }
+
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    return actual.length === expected.length &&
+      actual.every((value, index) => numericEqual(value, expected[index], tolerance));
+  }
+
+  if (isPlainObject(actual) && isPlainObject(expected)) {
+    const keys = Object.keys(expected);
+    return Object.keys(actual).length === keys.length &&
+      keys.every(key => key in actual && numericEqual(actual[key], expected[key], tolerance));
+  }
+
+  return deepEqual(actual, expected);
+}
+
+/**
+ * Stable serialization with sorted object keys, so equal values always produce the same key
+ */
+function canonicalKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalKey).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalKey(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+function unorderedKey(values: unknown[]): string {
+  return `[${values.map(canonicalKey).sort().join(',')}]`;
+}
+
+function sameMultiset(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.every((key, index) => key === sortedB[index]);
+}
+
+function isArrayOfArrays(value: unknown): value is unknown[][] {
+  return Array.isArray(value) && value.every(Array.isArray);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeLines(text: string): string {
+  return text.split(/\r?\n/).map(line => line.trimEnd()).join('\n').replace(/\n+$/, '');
+}
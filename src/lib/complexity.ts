@@ -0,0 +1,90 @@
+/**
+ * Complexity - Empirical time-complexity estimation from timings at growing input sizes
+ * Puzzles describe how to build an input of size n; the runner times the solution and fits a class
+ */
+
+export type ComplexityClass = 'O(1)' | 'O(log n)' | 'O(n)' | 'O(n log n)' | 'O(n²)' | 'O(2^n)';
+
+// Ordered from fastest to slowest growth; ties in the fit go to the earlier class
+export const COMPLEXITY_CLASSES: ComplexityClass[] = ['O(1)', 'O(log n)', 'O(n)', 'O(n log n)', 'O(n²)', 'O(2^n)'];
+
+export interface InputGeneratorSpec {
+  generator: string; // (n) => argument list in the same JSON form as a test input, run in the sandbox
+  sizes?: number[]; // defaults to DEFAULT_COMPLEXITY_SIZES; exponential puzzles need small sizes
+}
+
+export interface ComplexitySample {
+  size: number;
+  timeMs: number;
+}
+
+export interface ComplexityEstimate {
+  class: ComplexityClass;
+  samples: ComplexitySample[];
+}
+
+// Large enough that linear solutions rise above timer noise; quadratic ones time out after a few sizes
+export const DEFAULT_COMPLEXITY_SIZES = [10000, 20000, 40000, 80000, 160000];
+
+// Timed runs slower than this are not repeated
+export const REPEAT_CUTOFF_MS = 50;
+
+// Fewer points cannot tell growth curves apart
+export const MIN_COMPLEXITY_SAMPLES = 3;
+
+// Timer resolution in browsers is coarse, so faster runs are clamped to this floor
+const MIN_SAMPLE_MS = 0.01;
+
+// Squared log-residual per sample that is put down to measurement noise.
+// n and n log n differ by only ~30% across typical sizes, so near-ties go to the simpler class.
+const NOISE_ALLOWANCE_PER_SAMPLE = 0.01;
+
+// Natural log of each growth function, so fitting only has to find a constant offset
+const LOG_GROWTH: Record<ComplexityClass, (n: number) => number> = {
+  'O(1)': () => 0,
+  'O(log n)': n => Math.log(Math.log(n)),
+  'O(n)': n => Math.log(n),
+  'O(n log n)': n => Math.log(n) + Math.log(Math.log(n)),
+  'O(n²)': n => 2 * Math.log(n),
+  'O(2^n)': n => n * Math.LN2,
+};
+
+/**
+ * Pick the complexity class whose growth curve best explains the timings.
+ * Each class is fitted as time = c * f(n) in log space and ranked by squared residuals;
+ * the simplest class within the noise allowance of the best fit wins.
+ */
+export function fitComplexity(samples: ComplexitySample[]): ComplexityClass | undefined {
+  const points = samples.filter(sample => sample.size >= 3 && Number.isFinite(sample.timeMs));
+  if (new Set(points.map(point => point.size)).size < MIN_COMPLEXITY_SAMPLES) {
+    return undefined;
+  }
+
+  const errors = COMPLEXITY_CLASSES.map(complexity => {
+    const offsets = points.map(point =>
+      Math.log(Math.max(point.timeMs, MIN_SAMPLE_MS)) - LOG_GROWTH[complexity](point.size)
+    );
+    const mean = offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length;
+    return offsets.reduce((sum, offset) => sum + (offset - mean) ** 2, 0);
+  });
+
+  const threshold = Math.min(...errors) + NOISE_ALLOWANCE_PER_SAMPLE * points.length;
+  return COMPLEXITY_CLASSES.find((_, index) => errors[index] <= threshold);
+}
+
+/**
+ * Position of a class from fastest (0) to slowest growth
+ */
+export function complexityRank(complexity: ComplexityClass): number {
+  return COMPLEXITY_CLASSES.indexOf(complexity);
+}
+
+/**
+ * Wrap a puzzle-supplied input generator so it can be executed in the JavaScript sandbox
+ */
+export function createGeneratorWrapper(generator: string): string {
+  return `
+const __generator = (${generator});
+return __generator(__args[0]);
+`;
+}
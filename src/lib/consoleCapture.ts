@@ -0,0 +1,70 @@
+/**
+ * Console Capture - Collects what a submission prints during a single test case
+ * Output is capped so a chatty loop cannot flood the worker message or the UI
+ */
+
+export type LogStream = 'stdout' | 'stderr';
+
+export interface ConsoleLog {
+  stream: LogStream;
+  text: string;
+}
+
+export interface LogCollector {
+  logs: ConsoleLog[];
+  write: (stream: LogStream, text: string) => void;
+}
+
+// Combined size of all output kept for one test case
+export const MAX_LOG_CHARS = 8 * 1024;
+
+/**
+ * Create a collector that keeps output until the size cap, then records a single truncation notice
+ */
+export function createLogCollector(maxChars: number = MAX_LOG_CHARS): LogCollector {
+  const logs: ConsoleLog[] = [];
+  let remaining = maxChars;
+  let truncated = false;
+
+  return {
+    logs,
+    write(stream, text) {
+      if (truncated) return;
+
+      if (text.length > remaining) {
+        if (remaining > 0) {
+          logs.push({ stream, text: text.slice(0, remaining) });
+        }
+        logs.push({ stream: 'stderr', text: `[output truncated after ${maxChars} characters]` });
+        truncated = true;
+        return;
+      }
+
+      logs.push({ stream, text });
+      remaining -= text.length;
+    },
+  };
+}
+
+/**
+ * Render console arguments roughly the way a browser console prints them
+ */
+export function formatLogArgs(args: unknown[]): string {
+  return args.map(formatLogValue).join(' ');
+}
+
+function formatLogValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (value === undefined || typeof value === 'bigint' || typeof value === 'symbol') return String(value);
+  if (value instanceof Map) return `Map(${value.size}) ${formatLogValue(Object.fromEntries(value))}`;
+  if (value instanceof Set) return `Set(${value.size}) ${formatLogValue([...value])}`;
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    // Circular structures cannot be serialized
+    return String(value);
+  }
+}
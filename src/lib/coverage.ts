@@ -0,0 +1,169 @@
+/**
+ * Coverage - Statement hit counts for JavaScript and TypeScript submissions, reported per line
+ * A compiler transform puts a __cov(counter) call in front of every statement, and single-statement
+ * branches are wrapped in blocks so each branch gets its own counter. Counters are per statement
+ * rather than per line, so `if (x) return y;` shows when the return never ran.
+ */
+import type * as TS from 'typescript';
+
+// Counter id → how many times the statement it precedes ran
+export type CounterHits = Record<number, number>;
+
+// Totals for one source line; a line is fully covered only when none of its statements was missed
+export interface LineCoverage {
+  hits: number; // runs of the line's most-run statement
+  statements: number; // counted statements starting on the line
+  missed: number; // statements on the line that never ran
+}
+
+// 1-based source line → its coverage
+export type CoverageReport = Record<number, LineCoverage>;
+
+export interface InstrumentedCode {
+  output: string; // JavaScript with __cov calls, ready to be wrapped like any submission
+  counterLines: number[]; // source line of each counter, indexed by counter id
+}
+
+// Name of the counter the sandbox provides while collecting coverage
+export const COVERAGE_FUNCTION = '__cov';
+
+/**
+ * Instrument a submission, transpiling TypeScript in the same pass so lines match the editor
+ */
+export async function instrumentCoverage(code: string, language: string): Promise<InstrumentedCode> {
+  const { default: ts } = await import('typescript');
+  const counterLines: number[] = [];
+
+  const { outputText } = ts.transpileModule(code, {
+    fileName: language === 'typescript' ? 'submission.ts' : 'submission.js',
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      allowJs: true,
+    },
+    transformers: { before: [createCoverageTransformer(ts, counterLines)] },
+  });
+
+  return { output: outputText, counterLines };
+}
+
+/**
+ * Combine hit counts from several runs into per-line totals; every instrumented line is present,
+ * with all of its statements missed if it never ran
+ */
+export function summarizeCoverage(counterLines: number[], runs: (CounterHits | undefined)[]): CoverageReport {
+  const report: CoverageReport = {};
+
+  counterLines.forEach((line, counter) => {
+    const hits = runs.reduce((total, run) => total + (run?.[counter] ?? 0), 0);
+    const coverage = report[line] ??= { hits: 0, statements: 0, missed: 0 };
+    coverage.hits = Math.max(coverage.hits, hits);
+    coverage.statements++;
+    if (hits === 0) coverage.missed++;
+  });
+
+  return report;
+}
+
+function createCoverageTransformer(ts: typeof TS, counterLines: number[]): TS.TransformerFactory<TS.SourceFile> {
+  return context => sourceFile => {
+    const { factory } = context;
+
+    const counter = (node: TS.Node): TS.Statement => {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+      const id = counterLines.push(line) - 1;
+      return factory.createExpressionStatement(
+        factory.createCallExpression(factory.createIdentifier(COVERAGE_FUNCTION), undefined, [factory.createNumericLiteral(id)])
+      );
+    };
+
+    // Declarations do nothing when reached; their bodies are counted instead
+    const isDeclarationOnly = (statement: TS.Statement) =>
+      ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEmptyStatement(statement);
+
+    const instrumentStatements = (statements: TS.NodeArray<TS.Statement>): TS.Statement[] =>
+      statements.flatMap(statement => {
+        const visited = ts.visitNode(statement, visit) as TS.Statement;
+        return isDeclarationOnly(statement) ? [visited] : [counter(statement), visited];
+      });
+
+    // `if (x) return y;` gets a block so the return has a counter apart from the condition's
+    const asBlock = (statement: TS.Statement): TS.Statement =>
+      ts.isBlock(statement)
+        ? ts.visitNode(statement, visit) as TS.Statement
+        : factory.createBlock([counter(statement), ts.visitNode(statement, visit) as TS.Statement], true);
+
+    const visit = (node: TS.Node): TS.Node => {
+      if (ts.isBlock(node)) {
+        return factory.updateBlock(node, instrumentStatements(node.statements));
+      }
+      if (ts.isCaseClause(node)) {
+        return factory.updateCaseClause(node, ts.visitNode(node.expression, visit) as TS.Expression, instrumentStatements(node.statements));
+      }
+      if (ts.isDefaultClause(node)) {
+        return factory.updateDefaultClause(node, instrumentStatements(node.statements));
+      }
+      if (ts.isIfStatement(node)) {
+        const elseStatement = node.elseStatement && (
+          ts.isIfStatement(node.elseStatement) ? ts.visitNode(node.elseStatement, visit) as TS.Statement : asBlock(node.elseStatement)
+        );
+        return factory.updateIfStatement(node, ts.visitNode(node.expression, visit) as TS.Expression, asBlock(node.thenStatement), elseStatement);
+      }
+      if (ts.isIterationStatement(node, false) && !ts.isBlock(node.statement)) {
+        const visited = ts.visitEachChild(node, visit, context);
+        return replaceLoopBody(ts, factory, visited, factory.createBlock([counter(node.statement), visited.statement], true));
+      }
+      // Expression-bodied arrows count their body with a comma expression
+      if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) {
+        return factory.updateArrowFunction(
+          node,
+          node.modifiers,
+          node.typeParameters,
+          ts.visitNodes(node.parameters, visit) as TS.NodeArray<TS.ParameterDeclaration>,
+          node.type,
+          node.equalsGreaterThanToken,
+          factory.createParenthesizedExpression(
+            factory.createCommaListExpression([
+              (counter(node.body) as TS.ExpressionStatement).expression,
+              ts.visitNode(node.body, visit) as TS.Expression,
+            ])
+          )
+        );
+      }
+      return ts.visitEachChild(node, visit, context);
+    };
+
+    return factory.updateSourceFile(sourceFile, instrumentStatements(sourceFile.statements));
+  };
+}
+
+/**
+ * Swap the body of any loop statement for a counted block
+ */
+function replaceLoopBody(
+  ts: typeof TS,
+  factory: TS.NodeFactory,
+  loop: TS.IterationStatement,
+  body: TS.Statement
+): TS.Statement {
+  if (ts.isForStatement(loop)) {
+    return factory.updateForStatement(loop, loop.initializer, loop.condition, loop.incrementor, body);
+  }
+  if (ts.isForInStatement(loop)) {
+    return factory.updateForInStatement(loop, loop.initializer, loop.expression, body);
+  }
+  if (ts.isForOfStatement(loop)) {
+    return factory.updateForOfStatement(loop, loop.awaitModifier, loop.initializer, loop.expression, body);
+  }
+  if (ts.isWhileStatement(loop)) {
+    return factory.updateWhileStatement(loop, loop.expression, body);
+  }
+  if (ts.isDoStatement(loop)) {
+    return factory.updateDoStatement(loop, body, loop.expression);
+  }
+  return loop;
+}
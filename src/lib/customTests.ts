@@ -0,0 +1,46 @@
+/**
+ * Custom Tests - Inputs players add themselves in the execution panel
+ * Kept in sessionStorage per puzzle, so they survive reloads but not the browser session
+ */
+
+export interface CustomTest {
+  id: string;
+  input: string; // written like a puzzle test input, e.g. [1,2,3], 4
+}
+
+const STORAGE_PREFIX = 'customTests:';
+
+/**
+ * Load the player's tests for a puzzle; storage errors and malformed entries yield an empty list
+ */
+export function loadCustomTests(puzzleKey: string): CustomTest[] {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_PREFIX + puzzleKey);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((test): test is CustomTest => typeof test?.id === 'string' && typeof test?.input === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the stored tests for a puzzle
+ */
+export function saveCustomTests(puzzleKey: string, tests: CustomTest[]): void {
+  try {
+    if (tests.length === 0) {
+      sessionStorage.removeItem(STORAGE_PREFIX + puzzleKey);
+    } else {
+      sessionStorage.setItem(STORAGE_PREFIX + puzzleKey, JSON.stringify(tests));
+    }
+  } catch (error) {
+    // Storage may be full or disabled; the tests still work until the page is left
+    console.warn('⚠️ Failed to save custom tests:', error);
+  }
+}
+
+export function createCustomTest(input: string): CustomTest {
+  return { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, input };
+}
@@ -2,6 +2,7 @@
  * Enhanced Elo Rating System - Calculate rating changes with speed bonuses
  * Implements standard Elo with performance-based bonuses and penalties
  */
+import { type ComplexityClass } from './complexity';
 
 export interface EloResult {
   deltaWinner: number;
@@ -11,12 +12,32 @@ export interface EloResult {
 }
 
 export interface PerformanceMetrics {
-  executionTime: number; // in milliseconds
+  complexity?: ComplexityClass; // measured growth class; unknown when the puzzle has no input generator
   performanceScore: number; // 0-100
   wrongSubmissions: number;
   codeQuality: number; // 0-100 based on code analysis
 }
 
+// Multiplier adjustment per complexity class, replacing wall-clock speed tiers
+const COMPLEXITY_MULTIPLIERS: Record<ComplexityClass, number> = {
+  'O(1)': 0.5,
+  'O(log n)': 0.5,
+  'O(n)': 0.3,
+  'O(n log n)': 0.1,
+  'O(n²)': 0,
+  'O(2^n)': -0.2,
+};
+
+// Speed bonus points per complexity class
+const COMPLEXITY_BONUSES: Record<ComplexityClass, number> = {
+  'O(1)': 50,
+  'O(log n)': 40,
+  'O(n)': 30,
+  'O(n log n)': 20,
+  'O(n²)': 10,
+  'O(2^n)': 0,
+};
+
 /**
  * Calculate expected score for player A against player B
  * @param ratingA - Player A's current rating
@@ -55,7 +76,7 @@ export function computeEnhancedDeltas(
   const performanceMultiplier = calculatePerformanceMultiplier(winnerMetrics);
   
   // Calculate speed bonus (0-50 points)
-  const speedBonus = calculateSpeedBonus(winnerMetrics.executionTime, winnerMetrics.performanceScore);
+  const speedBonus = calculateSpeedBonus(winnerMetrics.complexity, winnerMetrics.performanceScore);
   
   // Calculate quality bonus based on code quality and wrong submissions
   const qualityBonus = calculateQualityBonus(winnerMetrics.wrongSubmissions, winnerMetrics.codeQuality);
@@ -92,15 +113,9 @@ export function computeEnhancedDeltas(
 function calculatePerformanceMultiplier(metrics: PerformanceMetrics): number {
   let multiplier = 1.0;
   
-  // Speed multiplier (faster = higher multiplier)
-  if (metrics.executionTime <= 100) {
-    multiplier += 0.5; // Very fast: +50%
-  } else if (metrics.executionTime <= 500) {
-    multiplier += 0.3; // Fast: +30%
-  } else if (metrics.executionTime <= 1000) {
-    multiplier += 0.1; // Good: +10%
-  } else if (metrics.executionTime > 3000) {
-    multiplier -= 0.2; // Slow: -20%
+  // Complexity multiplier (slower growth = higher multiplier)
+  if (metrics.complexity) {
+    multiplier += COMPLEXITY_MULTIPLIERS[metrics.complexity];
   }
   
   // Performance score multiplier
@@ -113,28 +128,13 @@ function calculatePerformanceMultiplier(metrics: PerformanceMetrics): number {
 
 /**
  * Calculate speed bonus points
- * @param executionTime - Time in milliseconds
+ * @param complexity - Measured complexity class, if the puzzle could measure it
  * @param performanceScore - Performance score 0-100
  * @returns Bonus points (0-50)
  */
-function calculateSpeedBonus(executionTime: number, performanceScore: number): number {
-  // Speed tiers with diminishing returns
-  const speedTiers = [
-    { threshold: 50, bonus: 50 },    // Lightning fast: 50ms
-    { threshold: 100, bonus: 40 },   // Very fast: 100ms
-    { threshold: 200, bonus: 30 },   // Fast: 200ms
-    { threshold: 500, bonus: 20 },   // Good: 500ms
-    { threshold: 1000, bonus: 10 },  // Average: 1s
-    { threshold: 2000, bonus: 5 },   // Slow: 2s
-  ];
-  
-  let speedBonus = 0;
-  for (const tier of speedTiers) {
-    if (executionTime <= tier.threshold) {
-      speedBonus = tier.bonus;
-      break;
-    }
-  }
+function calculateSpeedBonus(complexity: ComplexityClass | undefined, performanceScore: number): number {
+  // Without a measured class there is no evidence of an efficient solution
+  let speedBonus = complexity ? COMPLEXITY_BONUSES[complexity] : 0;
   
   // Apply performance score modifier
   const performanceModifier = performanceScore / 100;
@@ -203,7 +203,6 @@ export function computeDeltas(
   K: number = 32
 ): EloResult {
   const winnerMetrics: PerformanceMetrics = {
-    executionTime: 1000, // Default average time
     performanceScore: 75, // Default good performance
     wrongSubmissions,
     codeQuality: 70, // Default decent quality
@@ -253,7 +252,6 @@ export function calculateRatingPreview(
   lossScenario: { deltaLoser: number };
 } {
   const defaultMetrics: PerformanceMetrics = {
-    executionTime: 1000,
     performanceScore: 75,
     wrongSubmissions: 1,
     codeQuality: 70,
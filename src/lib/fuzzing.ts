@@ -0,0 +1,50 @@
+/**
+ * Fuzzing - Differential testing of submissions against a puzzle's reference solution
+ * Puzzles describe how to build a random input of a given size; any input where the
+ * submission disagrees with the reference becomes an extra failing test
+ */
+import { type ComparatorSpec } from './comparators';
+
+export interface FuzzSpec {
+  generator: string; // (random, size) => argument list in the same JSON form as a test input, run in the sandbox
+  runs?: number; // defaults to DEFAULT_FUZZ_RUNS
+  maxSize?: number; // largest size handed to the generator; defaults to DEFAULT_FUZZ_MAX_SIZE
+  comparator?: ComparatorSpec; // how submission and reference outputs are compared; defaults to the test heuristics
+}
+
+// Reported with the result so a failing run can be reproduced
+export interface FuzzSummary {
+  runs: number; // inputs that were actually checked
+  seed: number;
+  passed: boolean;
+}
+
+export const DEFAULT_FUZZ_RUNS = 100;
+
+// Small inputs are enough to expose most wrong answers and are easy for players to read
+export const DEFAULT_FUZZ_MAX_SIZE = 20;
+
+/**
+ * Sizes for each run, growing from 1 to maxSize so the first mismatch is also one of the smallest
+ */
+export function fuzzSizes(runs: number, maxSize: number): number[] {
+  return Array.from({ length: runs }, (_, run) => 1 + Math.floor((run * maxSize) / runs));
+}
+
+/**
+ * Wrap a puzzle-supplied fuzz generator so it can be executed in the JavaScript sandbox.
+ * Math.random is fixed inside the sandbox, so the generator receives a seeded generator instead.
+ */
+export function createFuzzGeneratorWrapper(generator: string): string {
+  return `
+const __generator = (${generator});
+return __generator(createRandom(__args[0]), __args[1]);
+`;
+}
+
+/**
+ * Show generated arguments the way test inputs are written
+ */
+export function formatFuzzInput(args: unknown[]): string {
+  return args.map(arg => JSON.stringify(arg)).join(', ');
+}
@@ -0,0 +1,71 @@
+/**
+ * Languages - Editor and sandbox metadata for each supported submission language
+ */
+import { Language } from '../types';
+
+export interface LanguageOption {
+  id: Language;
+  name: string;
+  monacoLanguage: string;
+  starterCode: string;
+}
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    monacoLanguage: 'javascript',
+    starterCode: '// Your solution here\nfunction solve() {\n  \n}',
+  },
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    monacoLanguage: 'typescript',
+    starterCode: '// Your solution here\nfunction solve(): unknown {\n  \n}',
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    monacoLanguage: 'python',
+    starterCode: '# Your solution here\ndef solve():\n    pass\n',
+  },
+  {
+    id: 'sql',
+    name: 'SQL',
+    monacoLanguage: 'sql',
+    starterCode: '-- Your query here\nSELECT 1;\n',
+  },
+];
+
+// Puzzles that do not list their languages accept any general-purpose language
+export const DEFAULT_PUZZLE_LANGUAGES: Language[] = ['javascript', 'typescript', 'python'];
+
+export function getLanguageOption(language: Language): LanguageOption {
+  return LANGUAGE_OPTIONS.find(option => option.id === language) ?? LANGUAGE_OPTIONS[0];
+}
+
+/**
+ * Editor options for a puzzle, limited to the languages it accepts
+ */
+export function getPuzzleLanguageOptions(languages?: Language[] | null): LanguageOption[] {
+  const allowed = languages && languages.length > 0 ? languages : DEFAULT_PUZZLE_LANGUAGES;
+  return LANGUAGE_OPTIONS.filter(option => allowed.includes(option.id));
+}
+
+/**
+ * Starter code for a language, preferring the puzzle's own. A puzzle's JavaScript starter
+ * is also valid TypeScript, so it stands in when there is no TypeScript one.
+ */
+export function getStarterCode(language: Language, puzzleStarterCode?: Partial<Record<Language, string>> | null): string {
+  return puzzleStarterCode?.[language] ??
+    (language === 'typescript' ? puzzleStarterCode?.javascript : undefined) ??
+    getLanguageOption(language).starterCode;
+}
+
+/**
+ * Whether the editor still holds untouched starter code, so switching languages can replace it
+ */
+export function isStarterCode(code: string, puzzleStarterCode?: Partial<Record<Language, string>> | null): boolean {
+  return LANGUAGE_OPTIONS.some(option => option.starterCode.trim() === code.trim()) ||
+    Object.values(puzzleStarterCode ?? {}).some(starter => starter.trim() === code.trim());
+}
@@ -0,0 +1,38 @@
+/**
+ * Local Code Source - A repository checkout on disk, for coding-style analysis from Node scripts
+ * Kept apart from codeSources.ts because it needs the filesystem, which the browser bundle cannot import
+ */
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import { decodeSource, isAnalyzableSource, isIgnoredDirectory, MAX_SOURCE_FILES, type CodeSource, type SourceFile } from './codeSources';
+
+export class DirectorySource implements CodeSource {
+  readonly name = 'directory';
+
+  constructor(private readonly root: string) {}
+
+  async listFiles(): Promise<SourceFile[]> {
+    const files: SourceFile[] = [];
+    await this.walk(this.root, files);
+    return files;
+  }
+
+  private async walk(directory: string, files: SourceFile[]) {
+    const entries = await readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (files.length >= MAX_SOURCE_FILES) return;
+
+      const path = join(directory, entry.name);
+      const relativePath = relative(this.root, path).split(sep).join('/');
+
+      if (entry.isDirectory()) {
+        if (!isIgnoredDirectory(entry.name)) await this.walk(path, files);
+      } else if (entry.isFile() && isAnalyzableSource(relativePath, (await stat(path)).size)) {
+        const content = decodeSource(await readFile(path));
+        if (content !== null) files.push({ path: relativePath, content });
+      }
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Local Puzzle Bank - The puzzles directory read from disk, for Node scripts
+ * Kept apart from puzzleBank.ts because it needs the filesystem, which the browser bundle cannot import
+ */
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createPuzzleBank, type PuzzleBank, type PuzzleFiles } from './puzzleBank';
+
+export const PUZZLE_ROOT = join(process.cwd(), 'puzzles');
+
+export function listPuzzleDirectories(): string[] {
+  return readdirSync(PUZZLE_ROOT, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+}
+
+export function readPuzzleFiles(directory: string): PuzzleFiles {
+  const read = (file: string) => {
+    const path = join(PUZZLE_ROOT, directory, file);
+    return existsSync(path) ? readFileSync(path, 'utf8') : undefined;
+  };
+  return { puzzleJson: read('puzzle.json'), hiddenJson: read('hidden.json'), promptMarkdown: read('prompt.md') };
+}
+
+/**
+ * Every valid puzzle on disk: the bank loadPuzzleBank bundles into the app, plus hidden tests and reference solutions
+ */
+export function loadLocalPuzzleBank(): PuzzleBank {
+  return createPuzzleBank(Object.fromEntries(
+    listPuzzleDirectories().map(directory => [directory, readPuzzleFiles(directory)])
+  ));
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseOperations } from './operations';
+import { ESCAPE_PROPERTIES } from './propertyGuard';
+
+describe('parseOperations', () => {
+  it('parses class names, method names and argument lists', () => {
+    expect(parseOperations('["LRUCache", "put", "get"], [[2], [1, 1], [1]]')).toEqual({
+      names: ['LRUCache', 'put', 'get'],
+      args: [[2], [1, 1], [1]],
+    });
+  });
+
+  it.each(ESCAPE_PROPERTIES)('rejects %s as a method name', name => {
+    expect(() => parseOperations(`["Counter", "${name}"], [[], []]`)).toThrow(`Operation name '${name}' is not allowed`);
+  });
+
+  it('rejects escape property names as the class name', () => {
+    expect(() => parseOperations('["constructor"], [[]]')).toThrow("Operation name 'constructor' is not allowed");
+  });
+
+  it('rejects names that are not identifiers', () => {
+    expect(() => parseOperations('["Counter", "a.b"], [[], []]')).toThrow('Operation names must be valid identifiers');
+  });
+});
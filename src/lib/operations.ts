@@ -0,0 +1,153 @@
+/**
+ * Operations - "Design a class" puzzles replayed as sequences of constructor and method calls
+ * A test input is ["ClassName", "method", ...], [[ctorArgs], [methodArgs], ...]; the expected output
+ * lists one return value per call, with null for the constructor and void methods.
+ * null is compared like any other value, so a void method must not return anything. Only calls past
+ * the end of the expected list (undefined expectations) are not checked.
+ */
+import { deepEqual } from './comparators';
+import { ESCAPE_PROPERTIES } from './propertyGuard';
+
+export interface OperationSequence {
+  names: string[]; // the class name first, then one method name per call
+  args: unknown[][]; // argument list for each entry in names
+}
+
+// What the sandbox reports after replaying a sequence; error marks the call that threw
+export interface OperationTrace {
+  outputs: unknown[];
+  error?: { index: number; message: string };
+}
+
+export interface OperationDivergence {
+  index: number; // position in the sequence, 0 being the constructor
+  call: string; // e.g. get(2)
+  expected: unknown;
+  actual: unknown;
+  error?: string; // set when the call threw instead of returning
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Parse a test input into the calls it describes
+ */
+export function parseOperations(input: string): OperationSequence {
+  const parsed: unknown = JSON.parse(`[${input.trim()}]`);
+  if (!Array.isArray(parsed) || parsed.length !== 2) {
+    throw new Error('Operation input must be a list of names followed by a list of argument lists');
+  }
+
+  const [names, args] = parsed;
+  if (!Array.isArray(names) || names.length === 0 || !names.every(name => typeof name === 'string')) {
+    throw new Error('Operation names must be a non-empty list of strings');
+  }
+  if (!Array.isArray(args) || args.length !== names.length || !args.every(Array.isArray)) {
+    throw new Error(`Expected ${names.length} argument list(s), one per operation`);
+  }
+  if (!names.every(name => IDENTIFIER_PATTERN.test(name))) {
+    throw new Error('Operation names must be valid identifiers');
+  }
+  // The replay looks methods up by name outside the key guard, so these would reach the Function constructor
+  const escapeName = names.find(name => ESCAPE_PROPERTIES.includes(name));
+  if (escapeName !== undefined) {
+    throw new Error(`Operation name '${escapeName}' is not allowed`);
+  }
+
+  return { names, args };
+}
+
+/**
+ * Wrap a JavaScript submission so it instantiates the named class and replays every call.
+ * Calls stop at the first exception, which is reported rather than thrown so earlier outputs survive.
+ */
+export function createClassWrapper(code: string, className: string): string {
+  if (!IDENTIFIER_PATTERN.test(className)) {
+    throw new Error(`Invalid class name: ${className}`);
+  }
+
+  return `{
+    ${code}
+
+    if (typeof ${className} !== 'function') {
+      throw new Error('No class named ${className} found. Please define class ${className}.');
+    }
+
+    const [__names, __argLists] = __args;
+    const __outputs = [];
+    const __message = (error) => (error && error.message) || String(error);
+    let __instance;
+
+    try {
+      __instance = new ${className}(...__argLists[0]);
+      __outputs.push(null);
+    } catch (error) {
+      return { outputs: __outputs, error: { index: 0, message: __message(error) } };
+    }
+
+    for (let __i = 1; __i < __names.length; __i++) {
+      if (typeof __instance[__names[__i]] !== 'function') {
+        return { outputs: __outputs, error: { index: __i, message: __names[__i] + ' is not a method of ${className}' } };
+      }
+      try {
+        const __value = __instance[__names[__i]](...__argLists[__i]);
+        __outputs.push(__value === undefined ? null : __value);
+      } catch (error) {
+        return { outputs: __outputs, error: { index: __i, message: __message(error) } };
+      }
+    }
+
+    return { outputs: __outputs };
+  }`;
+}
+
+/**
+ * Find the first call whose return value differs from the expected one, if any
+ */
+export function findDivergence(
+  trace: OperationTrace,
+  expected: unknown[],
+  sequence: OperationSequence
+): OperationDivergence | undefined {
+  const length = Math.max(expected.length, trace.outputs.length, trace.error ? trace.error.index + 1 : 0);
+
+  for (let index = 0; index < length; index++) {
+    const threw = trace.error?.index === index;
+    const missing = threw || index >= trace.outputs.length;
+    const wanted = expected[index];
+    const actual = trace.outputs[index] ?? null;
+
+    if (missing || (wanted !== undefined && !deepEqual(actual, wanted))) {
+      return {
+        index,
+        call: describeCall(sequence, index),
+        expected: wanted,
+        actual: missing ? undefined : actual,
+        error: threw ? trace.error!.message : undefined,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe a divergence for players, e.g. "Call 4, get(2): expected 1, got -1"
+ */
+export function formatDivergence(divergence: OperationDivergence): string {
+  const prefix = `Call ${divergence.index + 1}, ${divergence.call}`;
+
+  if (divergence.error) {
+    return `${prefix}: threw ${divergence.error}`;
+  }
+  if (divergence.actual === undefined) {
+    return `${prefix}: expected ${JSON.stringify(divergence.expected)}, but the call was never made`;
+  }
+  return `${prefix}: expected ${JSON.stringify(divergence.expected)}, got ${JSON.stringify(divergence.actual)}`;
+}
+
+function describeCall(sequence: OperationSequence, index: number): string {
+  const name = sequence.names[index] ?? '?';
+  const args = (sequence.args[index] ?? []).map(arg => JSON.stringify(arg)).join(', ');
+  return index === 0 ? `new ${name}(${args})` : `${name}(${args})`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Property Guard - Runtime check on computed property keys in submissions
+ * Whether obj[key] reaches the Function constructor depends on the value of key, so the analyzer
+ * cannot rule it out; guardComputedAccess routes every non-constant key through this check instead.
+ */
+
+// Property names that lead from any value back to the Function constructor or prototype chain
+export const ESCAPE_PROPERTIES: readonly string[] = Object.freeze([
+  'constructor',
+  '__proto__',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__',
+]);
+
+// Name under which the sandbox passes guardPropertyKey to submissions; submissions may not use it
+export const KEY_GUARD_FUNCTION = '__guardKey';
+
+/**
+ * The property key a computed access will use, or an error for escape properties.
+ * Written without method calls, since a submission may have patched the prototypes by now.
+ */
+export function guardPropertyKey(key: unknown): PropertyKey {
+  if (typeof key === 'number' || typeof key === 'symbol') {
+    return key;
+  }
+
+  // Converting once means an object key cannot turn into another name after the check
+  const name = String(key);
+  for (let index = 0; index < ESCAPE_PROPERTIES.length; index++) {
+    if (name === ESCAPE_PROPERTIES[index]) {
+      throw new Error(`access to '${name}' is not allowed`);
+    }
+  }
+  return name;
+}
@@ -0,0 +1,243 @@
+/**
+ * Puzzle Bank - Puzzles read from the puzzles/ directory and indexed by tag and difficulty
+ * Adding a puzzle means adding a directory; see puzzleSchema.ts for the file format.
+ * Banks built without hidden.json, like the one bundled into the app, have no hidden tests or reference solutions.
+ */
+import { type Difficulty, type Language } from '../types';
+import { type ComparatorSpec } from './comparators';
+import { type GeneratedPuzzle, type PuzzleTest } from './puzzleGenerator';
+import { type PuzzleTemplateSpec } from './puzzleTemplates';
+import {
+  joinPuzzleCode,
+  mergePuzzlePackage,
+  validatePuzzleFilePlacement,
+  validatePuzzlePackage,
+  type PuzzleComparator,
+  type PuzzleMode,
+  type PuzzlePackage,
+  type PuzzlePackageTest,
+} from './puzzleSchema';
+
+// Raw contents of one puzzle directory; a missing file is reported by parsePuzzleFiles
+export interface PuzzleFiles {
+  puzzleJson?: string;
+  hiddenJson?: string; // optional, and never available in the browser
+  promptMarkdown?: string;
+}
+
+export interface BankPuzzle extends GeneratedPuzzle {
+  id: string;
+  version: number;
+  title: string;
+  modes: PuzzleMode[];
+  template?: PuzzleTemplateSpec; // instantiate before use; prompt and code still hold {{placeholders}}
+  rating?: number; // calibrated from real attempts, in which case difficulty is calibrated too; see puzzleCalibration.ts
+}
+
+export interface PuzzleQuery {
+  mode?: PuzzleMode;
+  difficulty?: Difficulty;
+  tags?: string[]; // matches puzzles carrying any of these tags
+}
+
+export class PuzzleBank {
+  private readonly puzzles = new Map<string, BankPuzzle>();
+  private readonly tagIndex = new Map<string, BankPuzzle[]>();
+  private readonly difficultyIndex = new Map<Difficulty, BankPuzzle[]>();
+
+  constructor(puzzles: BankPuzzle[]) {
+    for (const puzzle of puzzles) {
+      if (this.puzzles.has(puzzle.id)) {
+        throw new Error(`Duplicate puzzle id: ${puzzle.id}`);
+      }
+      this.puzzles.set(puzzle.id, puzzle);
+      addToIndex(this.difficultyIndex, puzzle.difficulty, puzzle);
+      for (const tag of puzzle.tags) {
+        addToIndex(this.tagIndex, tag, puzzle);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.puzzles.size;
+  }
+
+  get(id: string): BankPuzzle | undefined {
+    return this.puzzles.get(id);
+  }
+
+  all(): BankPuzzle[] {
+    return [...this.puzzles.values()];
+  }
+
+  tags(): string[] {
+    return [...this.tagIndex.keys()].sort();
+  }
+
+  withTag(tag: string): BankPuzzle[] {
+    return this.tagIndex.get(tag) ?? [];
+  }
+
+  withDifficulty(difficulty: Difficulty): BankPuzzle[] {
+    return this.difficultyIndex.get(difficulty) ?? [];
+  }
+
+  /**
+   * Puzzles matching every given criterion; an empty query matches the whole bank
+   */
+  find(query: PuzzleQuery = {}): BankPuzzle[] {
+    const candidates = query.difficulty ? this.withDifficulty(query.difficulty) : this.all();
+    return candidates.filter(puzzle =>
+      (!query.mode || puzzle.modes.includes(query.mode)) &&
+      (!query.tags || query.tags.length === 0 || query.tags.some(tag => puzzle.tags.includes(tag)))
+    );
+  }
+}
+
+/**
+ * Parse and validate one puzzle directory, throwing with every schema problem found
+ */
+export function parsePuzzleFiles(directory: string, files: PuzzleFiles): BankPuzzle {
+  if (files.puzzleJson === undefined) {
+    throw new Error(`Puzzle "${directory}" is missing puzzle.json`);
+  }
+  if (files.promptMarkdown === undefined || files.promptMarkdown.trim() === '') {
+    throw new Error(`Puzzle "${directory}" is missing prompt.md`);
+  }
+
+  const data = parsePuzzleJson(directory, 'puzzle.json', files.puzzleJson);
+  const hidden = files.hiddenJson === undefined ? undefined : parsePuzzleJson(directory, 'hidden.json', files.hiddenJson);
+
+  const placement = validatePuzzleFilePlacement(data, hidden);
+  if (!placement.valid) {
+    throw new Error(`Puzzle "${directory}" is invalid: ${placement.errors.join('; ')}`);
+  }
+
+  const merged = isRecord(data) && isRecord(hidden) ? mergePuzzlePackage(data, hidden) : data;
+  const validation = validatePuzzlePackage(merged, directory);
+  if (!validation.valid) {
+    throw new Error(`Puzzle "${directory}" is invalid: ${validation.errors.join('; ')}`);
+  }
+
+  return toBankPuzzle(merged as PuzzlePackage, files.promptMarkdown.trim());
+}
+
+/**
+ * Build a bank from puzzle directories keyed by name. Invalid puzzles are left out with a warning,
+ * so one bad file does not take the rest of the bank down with it.
+ */
+export function createPuzzleBank(directories: Record<string, PuzzleFiles>): PuzzleBank {
+  const puzzles: BankPuzzle[] = [];
+
+  for (const [directory, files] of Object.entries(directories)) {
+    try {
+      puzzles.push(parsePuzzleFiles(directory, files));
+    } catch (error) {
+      console.warn('⚠️ Skipping puzzle:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return new PuzzleBank(puzzles);
+}
+
+let bundledBank: PuzzleBank | null = null;
+
+/**
+ * The bank bundled with the app. Vite inlines puzzle.json and prompt.md at build time, so this needs no network access.
+ * hidden.json is deliberately not globbed: hidden tests and reference solutions must not ship in the bundle.
+ */
+export function loadPuzzleBank(): PuzzleBank {
+  if (!bundledBank) {
+    const packages = import.meta.glob<string>('/puzzles/*/puzzle.json', { query: '?raw', import: 'default', eager: true });
+    const prompts = import.meta.glob<string>('/puzzles/*/prompt.md', { query: '?raw', import: 'default', eager: true });
+
+    const directories: Record<string, PuzzleFiles> = {};
+    for (const [path, contents] of Object.entries(packages)) {
+      (directories[puzzleDirectory(path)] ??= {}).puzzleJson = contents;
+    }
+    for (const [path, contents] of Object.entries(prompts)) {
+      (directories[puzzleDirectory(path)] ??= {}).promptMarkdown = contents;
+    }
+
+    bundledBank = createPuzzleBank(directories);
+  }
+  return bundledBank;
+}
+
+function parsePuzzleJson(directory: string, file: string, contents: string): unknown {
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Puzzle "${directory}" has invalid JSON in ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function puzzleDirectory(path: string): string {
+  const parts = path.split('/');
+  return parts[parts.length - 2];
+}
+
+function addToIndex<K>(index: Map<K, BankPuzzle[]>, key: K, puzzle: BankPuzzle) {
+  const entries = index.get(key);
+  if (entries) {
+    entries.push(puzzle);
+  } else {
+    index.set(key, [puzzle]);
+  }
+}
+
+function toBankPuzzle(data: PuzzlePackage, prompt: string): BankPuzzle {
+  const starterCode = data.starterCode &&
+    Object.fromEntries(Object.entries(data.starterCode).map(([language, code]) => [language, joinPuzzleCode(code)])) as
+      Partial<Record<Language, string>>;
+
+  return {
+    id: data.id,
+    version: data.version,
+    title: data.title,
+    modes: data.modes,
+    prompt,
+    tests: data.tests.map(toPuzzleTest),
+    hiddenTests: data.hiddenTests?.map(toPuzzleTest),
+    signature: data.signature,
+    inputGenerator: data.inputGenerator && {
+      ...data.inputGenerator,
+      generator: joinPuzzleCode(data.inputGenerator.generator),
+    },
+    memoryLimitMb: data.limits?.memoryMb,
+    timeLimitSeconds: data.limits?.timeLimitSeconds,
+    languages: data.languages,
+    sqlSchema: data.sqlSchema && joinPuzzleCode(data.sqlSchema),
+    referenceSolution: data.referenceSolution && joinPuzzleCode(data.referenceSolution),
+    fuzz: data.fuzz && {
+      ...data.fuzz,
+      generator: joinPuzzleCode(data.fuzz.generator),
+      comparator: data.fuzz.comparator && toComparatorSpec(data.fuzz.comparator),
+    },
+    starterCode,
+    template: data.template && {
+      parameters: joinPuzzleCode(data.template.parameters),
+      tests: data.template.tests && {
+        ...data.template.tests,
+        generator: joinPuzzleCode(data.template.tests.generator),
+        comparator: data.template.tests.comparator && toComparatorSpec(data.template.tests.comparator),
+      },
+    },
+    difficulty: data.difficulty,
+    tags: data.tags,
+    hints: data.hints,
+  };
+}
+
+function toPuzzleTest(test: PuzzlePackageTest): PuzzleTest {
+  const { comparator, ...rest } = test;
+  return comparator ? { ...rest, comparator: toComparatorSpec(comparator) } : rest;
+}
+
+function toComparatorSpec(comparator: PuzzleComparator): ComparatorSpec {
+  return comparator.type === 'custom' ? { type: 'custom', checker: joinPuzzleCode(comparator.checker) } : comparator;
+}
@@ -0,0 +1,169 @@
+/**
+ * Puzzle Calibration - Difficulty measured from how players actually do on each puzzle
+ * Every duel participant's attempt is a game between the player and the puzzle: solving it is a
+ * win for the player. Puzzles get Elo-style ratings on the player scale, starting from their
+ * hand-written label, and a calibrated label once enough attempts are in.
+ */
+import { type Difficulty } from '../types';
+import { expectedScore } from './elo';
+import { type BankPuzzle } from './puzzleBank';
+
+export interface PuzzleAttempt {
+  puzzleId: string;
+  userId: string;
+  playerRating: number; // the player's rating when the duel started
+  solved: boolean;
+  solveSeconds?: number; // from the duel start to the first passing submission
+  attemptedAt: string;
+}
+
+export interface PuzzleRating {
+  puzzleId: string;
+  rating: number;
+  attempts: number;
+  solves: number;
+  solveRate: number; // 0-1
+  medianSolveSeconds: number | null;
+  difficulty: Difficulty; // calibrated label; the hand-written one until MIN_CALIBRATION_ATTEMPTS
+}
+
+// The rows the calibration job reads; see scripts/calibratePuzzles.ts
+export interface CalibrationDuel {
+  id: string;
+  puzzleId: string;
+  participants: string[];
+  status: string;
+  startedAt: string | null;
+  createdAt: string;
+}
+
+export interface CalibrationSubmission {
+  duelId: string;
+  userId: string;
+  passed: boolean;
+  submittedAt: string;
+}
+
+// Where an uncalibrated puzzle starts, on the same scale as player ratings (new players start at 1200)
+export const DIFFICULTY_BASE_RATINGS: Record<Difficulty, number> = {
+  easy: 1000,
+  medium: 1400,
+  hard: 1800,
+};
+
+// Fewer attempts than this say more about the players than about the puzzle
+export const MIN_CALIBRATION_ATTEMPTS = 10;
+
+// Puzzles see far more games than players, so they move more slowly
+export const PUZZLE_RATING_K = 16;
+
+const DEFAULT_PLAYER_RATING = 1200;
+
+/**
+ * The label for a rating, split halfway between the base ratings
+ */
+export function difficultyForRating(rating: number): Difficulty {
+  if (rating < (DIFFICULTY_BASE_RATINGS.easy + DIFFICULTY_BASE_RATINGS.medium) / 2) return 'easy';
+  if (rating < (DIFFICULTY_BASE_RATINGS.medium + DIFFICULTY_BASE_RATINGS.hard) / 2) return 'medium';
+  return 'hard';
+}
+
+/**
+ * One attempt per participant of every duel that was played on a bank puzzle. Participants of
+ * unfinished duels only count once they submitted something, since they may still be solving it.
+ */
+export function buildPuzzleAttempts(
+  duels: CalibrationDuel[],
+  submissions: CalibrationSubmission[],
+  playerRatings: (duelId: string, userId: string) => number | undefined
+): PuzzleAttempt[] {
+  const byDuel = new Map<string, CalibrationSubmission[]>();
+  for (const submission of submissions) {
+    const entries = byDuel.get(submission.duelId) ?? [];
+    entries.push(submission);
+    byDuel.set(submission.duelId, entries);
+  }
+
+  return duels.flatMap(duel => duel.participants.flatMap(userId => {
+    const own = (byDuel.get(duel.id) ?? []).filter(submission => submission.userId === userId);
+    if (duel.status !== 'completed' && own.length === 0) return [];
+
+    const firstPass = own
+      .filter(submission => submission.passed)
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))[0];
+    const startedAt = duel.startedAt ?? duel.createdAt;
+
+    return [{
+      puzzleId: duel.puzzleId,
+      userId,
+      playerRating: playerRatings(duel.id, userId) ?? DEFAULT_PLAYER_RATING,
+      solved: firstPass !== undefined,
+      solveSeconds: firstPass
+        ? Math.max(0, Math.round((Date.parse(firstPass.submittedAt) - Date.parse(startedAt)) / 1000))
+        : undefined,
+      attemptedAt: startedAt,
+    }];
+  }));
+}
+
+/**
+ * Rate every puzzle from its attempts, replayed in the order they happened
+ */
+export function calibratePuzzles(
+  puzzles: Array<Pick<BankPuzzle, 'id' | 'difficulty'>>,
+  attempts: PuzzleAttempt[]
+): PuzzleRating[] {
+  const ordered = [...attempts].sort((a, b) => a.attemptedAt.localeCompare(b.attemptedAt));
+
+  return puzzles.map(puzzle => {
+    const own = ordered.filter(attempt => attempt.puzzleId === puzzle.id);
+    let rating = DIFFICULTY_BASE_RATINGS[puzzle.difficulty];
+
+    for (const attempt of own) {
+      // The puzzle loses rating when solved, more so by a weaker player
+      const solveChance = expectedScore(attempt.playerRating, rating);
+      rating += PUZZLE_RATING_K * (solveChance - (attempt.solved ? 1 : 0));
+    }
+
+    const solveTimes = own.flatMap(attempt => attempt.solveSeconds === undefined ? [] : [attempt.solveSeconds]);
+    const solves = own.filter(attempt => attempt.solved).length;
+
+    return {
+      puzzleId: puzzle.id,
+      rating: Math.round(rating),
+      attempts: own.length,
+      solves,
+      solveRate: own.length > 0 ? Math.round((solves / own.length) * 100) / 100 : 0,
+      medianSolveSeconds: median(solveTimes),
+      difficulty: own.length >= MIN_CALIBRATION_ATTEMPTS ? difficultyForRating(rating) : puzzle.difficulty,
+    };
+  });
+}
+
+/**
+ * Bank puzzles with their calibrated difficulty and rating; puzzles without a rating keep their label
+ */
+export function applyPuzzleRatings(puzzles: BankPuzzle[], ratings: PuzzleRating[]): BankPuzzle[] {
+  const byId = new Map(ratings.map(rating => [rating.puzzleId, rating]));
+  return puzzles.map(puzzle => {
+    const rating = byId.get(puzzle.id);
+    return rating ? { ...puzzle, difficulty: rating.difficulty, rating: rating.rating } : puzzle;
+  });
+}
+
+/**
+ * The difficulty of the puzzle whose rating is closest to what the player should face,
+ * or the matching label when there are no puzzles to go by
+ */
+export function recommendDifficulty(puzzles: BankPuzzle[], targetRating: number): Difficulty {
+  const ratingOf = (puzzle: BankPuzzle) => puzzle.rating ?? DIFFICULTY_BASE_RATINGS[puzzle.difficulty];
+  const closest = [...puzzles].sort((a, b) => Math.abs(ratingOf(a) - targetRating) - Math.abs(ratingOf(b) - targetRating))[0];
+  return closest ? closest.difficulty : difficultyForRating(targetRating);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
@@ -1,20 +1,50 @@
 /**
  * Puzzle Generator - AI-powered coding challenge creation
- * This module will interface with llama.cpp to generate personalized coding challenges
+ * Puzzles come from the puzzle-generate edge function (backed by a provider such as a llama.cpp server)
+ * when VITE_PUZZLE_GENERATION is enabled, and from the puzzle bank otherwise or whenever generation fails.
+ * Either way the browser only gets the public part of a puzzle; the judge loads the rest on the server.
  */
-import { GameMode, PracticeMode, Difficulty } from '../types';
+import { GameMode, PracticeMode, Difficulty, Language } from '../types';
+import { type ComparatorSpec } from './comparators';
+import { type FunctionSignature } from './structures';
+import { type InputGeneratorSpec } from './complexity';
+import { type FuzzSpec } from './fuzzing';
+import { loadPuzzleBank, PuzzleBank, type PuzzleQuery } from './puzzleBank';
+import { applyPuzzleRatings, type PuzzleRating } from './puzzleCalibration';
+import { hasSeen, selectFairPuzzle, type PlayerFingerprint, type SelectionReason } from './puzzleSelection';
+import { type PuzzleRequest } from './puzzleProviders';
+import { instantiatePuzzle } from './puzzleTemplates';
+import { randomSeed } from './random';
+import { type PuzzleMode } from './puzzleSchema';
+import { supabase } from './supabaseClient';
 
 export interface PuzzleTest {
   input: string;
   expected: string;
+  comparator?: ComparatorSpec;
 }
 
 export interface GeneratedPuzzle {
+  id?: string; // puzzle bank id; absent for puzzles that were not loaded from the bank
+  version?: number; // puzzle bank revision
+  seed?: number; // set on instances of templated puzzles; with id and version it regenerates the same instance
+  title?: string;
   prompt: string;
-  tests: PuzzleTest[];
+  tests: PuzzleTest[]; // visible samples, shown to players and used by "Run"
+  hiddenTests?: PuzzleTest[]; // only judged on submit; comes from hidden.json, so browser puzzles never have them
+  signature?: FunctionSignature;
+  inputGenerator?: InputGeneratorSpec; // scalable inputs for time-complexity estimation
+  memoryLimitMb?: number; // per-call heap limit; the sandbox default applies when unset
+  timeLimitSeconds?: number; // duel clock; callers fall back to their own default
+  languages?: Language[]; // accepted submission languages; defaults to DEFAULT_PUZZLE_LANGUAGES
+  sqlSchema?: string; // SQL puzzles: CREATE TABLE and shared INSERT statements; each test input adds its own rows
+  referenceSolution?: string; // JavaScript (a query for SQL puzzles); in hidden.json like the hidden tests
+  fuzz?: FuzzSpec; // random inputs checked against the reference solution when a duel submission is judged
+  starterCode?: Partial<Record<Language, string>>; // editor contents per language; the language defaults apply otherwise
   difficulty: Difficulty;
   tags: string[];
   hints?: string[];
+  selectionReason?: SelectionReason; // why this puzzle was picked for these players
 }
 
 interface PracticeOptions {
@@ -23,251 +53,90 @@ interface PracticeOptions {
   mode: PracticeMode;
 }
 
+/**
+ * Pick or generate a puzzle for up to two players. Fingerprints (see playerFingerprintService)
+ * steer bank picks towards puzzles neither player has seen and neither is stronger at;
+ * pass null for a player who is not known yet. With puzzle ratings (see puzzleRatingService),
+ * the requested difficulty is matched against calibrated difficulties instead of the hand-written labels.
+ */
 export async function generatePuzzle(
-  player1Fingerprint: string,
-  player2Fingerprint: string,
+  player1Fingerprint: PlayerFingerprint | null,
+  player2Fingerprint: PlayerFingerprint | null,
   gameMode: GameMode = 'ranked-duel',
-  practiceOptions?: PracticeOptions
+  practiceOptions?: PracticeOptions,
+  puzzleRatings: PuzzleRating[] = []
 ): Promise<GeneratedPuzzle> {
-  // TODO: Implement actual LLM integration with llama.cpp
-  // This will analyze GitHub profiles and generate fair challenges
-  
-  console.log('Generating puzzle for:', { 
-    player1Fingerprint, 
-    player2Fingerprint, 
-    gameMode, 
-    practiceOptions 
-  });
-  
-  // Mock implementation for development - different puzzles based on mode
-  const competitivePuzzles: GeneratedPuzzle[] = [
-    {
-      prompt: `Write a function that finds the two numbers in an array that add up to a target sum.
-
-Given an array of integers and a target sum, return the indices of the two numbers that add up to the target.
-
-You may assume that each input would have exactly one solution, and you may not use the same element twice.
-
-Examples:
-- Input: nums = [2, 7, 11, 15], target = 9
-- Output: [0, 1] (because nums[0] + nums[1] = 2 + 7 = 9)
-- Input: nums = [3, 2, 4], target = 6  
-- Output: [1, 2]
-
-Function signature:
-function twoSum(nums, target) {
-  // Your code here
-}`,
-      tests: [
-        { input: '[2, 7, 11, 15], 9', expected: '[0, 1]' },
-        { input: '[3, 2, 4], 6', expected: '[1, 2]' },
-        { input: '[3, 3], 6', expected: '[0, 1]' },
-        { input: '[1, 2, 3, 4], 7', expected: '[2, 3]' },
-        { input: '[5, 5], 10', expected: '[0, 1]' },
-      ],
-      difficulty: 'easy',
-      tags: ['arrays', 'hash-table', 'two-pointers'],
-    },
-    {
-      prompt: `Find the maximum profit from buying and selling a stock.
-
-You are given an array of stock prices where prices[i] is the price on day i.
-You want to maximize profit by choosing a single day to buy and a different day in the future to sell.
-
-Return the maximum profit you can achieve. If no profit is possible, return 0.
-
-Examples:
-- [7,1,5,3,6,4] → 5 (buy at 1, sell at 6)
-- [7,6,4,3,1] → 0 (prices only decrease)
-- [1,2,3,4,5] → 4 (buy at 1, sell at 5)
-
-Function signature:
-function maxProfit(prices) {
-  // Your code here
-}`,
-      tests: [
-        { input: '[7,1,5,3,6,4]', expected: '5' },
-        { input: '[7,6,4,3,1]', expected: '0' },
-        { input: '[1,2,3,4,5]', expected: '4' },
-        { input: '[2,4,1]', expected: '2' },
-        { input: '[1]', expected: '0' },
-        { input: '[3,2,6,5,0,3]', expected: '4' },
-      ],
-      difficulty: 'easy',
-      tags: ['arrays', 'dynamic-programming', 'greedy'],
-    },
-    {
-      prompt: `Implement a function to find the longest common subsequence.
-
-Given two strings, find the length of their longest common subsequence.
-A subsequence is a sequence that can be derived from another sequence by deleting some or no elements without changing the order of the remaining elements.
-
-Examples:
-- "abcde", "ace" → 3 (subsequence "ace")
-- "abc", "abc" → 3 (entire string)
-- "abc", "def" → 0 (no common subsequence)
-- "ABCDGH", "AEDFHR" → 3 (subsequence "ADH")
-
-Function signature:
-function longestCommonSubsequence(text1, text2) {
-  // Your code here
-}`,
-      tests: [
-        { input: '"abcde", "ace"', expected: '3' },
-        { input: '"abc", "abc"', expected: '3' },
-        { input: '"abc", "def"', expected: '0' },
-        { input: '"ABCDGH", "AEDFHR"', expected: '3' },
-        { input: '"", "abc"', expected: '0' },
-        { input: '"abc", ""', expected: '0' },
-      ],
-      difficulty: 'medium',
-      tags: ['dynamic-programming', 'strings', 'subsequence'],
-    },
-    {
-      prompt: `Implement a function to validate a binary search tree.
-
-Given the root of a binary tree, determine if it is a valid binary search tree (BST).
-
-A valid BST is defined as follows:
-- The left subtree of a node contains only nodes with keys less than the node's key
-- The right subtree of a node contains only nodes with keys greater than the node's key
-- Both the left and right subtrees must also be binary search trees
+  const players = [player1Fingerprint, player2Fingerprint].filter((player): player is PlayerFingerprint => player !== null);
+
+  const mode: PuzzleMode = gameMode === 'practice' ? 'practice' : 'duel';
+  const request: PuzzleRequest = {
+    mode,
+    difficulty: practiceOptions?.difficulty,
+    topic: practiceOptions?.topic,
+    seed: randomSeed(),
+  };
 
-Tree node structure:
-class TreeNode {
-  constructor(val, left = null, right = null) {
-    this.val = val;
-    this.left = left;
-    this.right = right;
+  if (import.meta.env.VITE_PUZZLE_GENERATION === 'true') {
+    try {
+      // Generated puzzles are stored on the server like bank puzzles, under an id of their own
+      const { puzzle, provider } = await requestGeneratedPuzzle(request);
+      return {
+        ...puzzle,
+        selectionReason: {
+          source: 'generated',
+          provider,
+          players: players.map(player => player.userId),
+          summary: `Generated by ${provider}`,
+        },
+      };
+    } catch (error) {
+      console.warn('⚠️ Puzzle generation failed, using the puzzle bank:', error instanceof Error ? error.message : error);
+    }
   }
-}
-
-Function signature:
-function isValidBST(root) {
-  // Your code here
-}`,
-      tests: [
-        { input: 'new TreeNode(2, new TreeNode(1), new TreeNode(3))', expected: 'true' },
-        { input: 'new TreeNode(5, new TreeNode(1), new TreeNode(4, new TreeNode(3), new TreeNode(6)))', expected: 'false' },
-        { input: 'new TreeNode(1)', expected: 'true' },
-        { input: 'null', expected: 'true' },
-      ],
-      difficulty: 'medium',
-      tags: ['trees', 'binary-search-tree', 'recursion'],
-    },
-    {
-      prompt: `Write a function that finds the two numbers in an array that add up to a target sum.
-
-Given an array of integers and a target sum, return the indices of the two numbers that add up to the target.
 
-You may assume that each input would have exactly one solution, and you may not use the same element twice.
-
-Example:
-Input: nums = [2, 7, 11, 15], target = 9
-Output: [0, 1] (because nums[0] + nums[1] = 2 + 7 = 9)`,
-      tests: [
-        { input: '[2, 7, 11, 15], 9', expected: '[0, 1]' },
-        { input: '[3, 2, 4], 6', expected: '[1, 2]' },
-        { input: '[3, 3], 6', expected: '[0, 1]' },
-      ],
-      difficulty: 'medium',
-      tags: ['arrays', 'hash-table', 'two-pointers'],
-    },
-    {
-      prompt: `Implement a function to reverse a linked list.
+  return pickBankPuzzle(request, players, puzzleRatings);
+}
 
-Given the head of a singly linked list, reverse the list and return the new head.
+async function requestGeneratedPuzzle(request: PuzzleRequest): Promise<{ puzzle: GeneratedPuzzle; provider: string }> {
+  const { data, error } = await supabase.functions.invoke('puzzle-generate', { body: request });
 
-The linked list is defined as:
-class ListNode {
-  val: number;
-  next: ListNode | null;
-  constructor(val?: number, next?: ListNode | null) {
-    this.val = (val === undefined ? 0 : val);
-    this.next = (next === undefined ? null : next);
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Puzzle generation failed');
   }
-}`,
-      tests: [
-        { input: '[1,2,3,4,5]', expected: '[5,4,3,2,1]' },
-        { input: '[1,2]', expected: '[2,1]' },
-        { input: '[]', expected: '[]' },
-      ],
-      difficulty: 'easy',
-      tags: ['linked-list', 'recursion', 'iterative'],
-    },
-  ];
-  
-  const practicePuzzles: GeneratedPuzzle[] = [
-    {
-      prompt: `Find the maximum sum of a contiguous subarray (Kadane's Algorithm).
-
-Given an integer array nums, find the contiguous subarray (containing at least one number) which has the largest sum and return its sum.
-
-This is a classic dynamic programming problem that can be solved efficiently in O(n) time.
-
-Example:
-Input: nums = [-2,1,-3,4,-1,2,1,-5,4]
-Output: 6
-Explanation: [4,-1,2,1] has the largest sum = 6.`,
-      tests: [
-        { input: '[-2,1,-3,4,-1,2,1,-5,4]', expected: '6' },
-        { input: '[1]', expected: '1' },
-        { input: '[5,4,-1,7,8]', expected: '23' },
-        { input: '[-1]', expected: '-1' },
-      ],
-      difficulty: 'medium',
-      tags: ['dynamic-programming', 'arrays', 'kadane-algorithm'],
-      hints: [
-        'Think about what information you need to track as you iterate through the array.',
-        'At each position, you can either extend the current subarray or start a new one.',
-        'Keep track of the maximum sum seen so far and the maximum sum ending at the current position.',
-        'This is Kadane\'s algorithm - a classic DP approach with O(n) time complexity.',
-      ],
-    },
-    {
-      prompt: `Check if a string is a valid palindrome.
 
-A phrase is a palindrome if, after converting all uppercase letters into lowercase letters and removing all non-alphanumeric characters, it reads the same forward and backward.
+  return { puzzle: data.puzzle, provider: data.provider };
+}
 
-Example:
-Input: s = "A man, a plan, a canal: Panama"
-Output: true
-Explanation: "amanaplanacanalpanama" is a palindrome.`,
-      tests: [
-        { input: '"A man, a plan, a canal: Panama"', expected: 'true' },
-        { input: '"race a car"', expected: 'false' },
-        { input: '" "', expected: 'true' },
-      ],
-      difficulty: 'easy',
-      tags: ['strings', 'two-pointers', 'palindrome'],
-      hints: [
-        'First, clean the string by removing non-alphanumeric characters and converting to lowercase.',
-        'Use two pointers - one at the start and one at the end.',
-        'Compare characters and move pointers toward each other.',
-        'If all comparisons match, it\'s a palindrome.',
-      ],
-    },
+async function pickBankPuzzle(
+  { mode, difficulty, topic }: PuzzleRequest,
+  players: PlayerFingerprint[],
+  puzzleRatings: PuzzleRating[]
+): Promise<GeneratedPuzzle> {
+  const bank = puzzleRatings.length > 0
+    ? new PuzzleBank(applyPuzzleRatings(loadPuzzleBank().all(), puzzleRatings))
+    : loadPuzzleBank();
+
+  // Narrow by the requested difficulty and topic, dropping criteria until something matches,
+  // or until something matches that the players have not seen yet
+  const queries: PuzzleQuery[] = [
+    { mode, difficulty, tags: topic ? [topic] : undefined },
+    { mode, difficulty },
+    { mode },
   ];
+  const matches = queries.map(query => bank.find(query)).filter(puzzles => puzzles.length > 0);
+  const candidates = matches.find(puzzles => puzzles.some(puzzle => !hasSeen(puzzle, players))) ?? matches[0];
 
-  // Return appropriate puzzle based on game mode
-  if (gameMode === 'practice') {
-    return practicePuzzles[Math.floor(Math.random() * practicePuzzles.length)];
+  if (!candidates) {
+    throw new Error(`The puzzle bank has no ${mode} puzzles`);
   }
-  
-  return competitivePuzzles[Math.floor(Math.random() * competitivePuzzles.length)];
-}
 
-export async function analyzeCodingStyle(githubUsername: string): Promise<{
-  preferredLanguages: string[];
-  complexityLevel: number;
-  favoritePatterns: string[];
-}> {
-  // TODO: Implement GitHub API integration to analyze coding patterns
-  console.log('Analyzing coding style for:', githubUsername);
+  const { puzzle, reason } = selectFairPuzzle(candidates, players);
   
-  return {
-    preferredLanguages: ['javascript', 'typescript', 'python'],
-    complexityLevel: 0.7, // 0-1 scale
-    favoritePatterns: ['functional', 'object-oriented', 'recursive'],
-  };
-}
\ No newline at end of file
+  // Templated puzzles get a fresh instance; callers store the seed so it can be regenerated
+  const { template } = puzzle;
+  const selected = template ? await instantiatePuzzle({ ...puzzle, template }, randomSeed()) : puzzle;
+  return { ...selected, selectionReason: reason };
+}
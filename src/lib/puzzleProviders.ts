@@ -0,0 +1,280 @@
+/**
+ * Puzzle Providers - Fresh puzzles written by a language model
+ * A provider turns a request into raw model output; generateProviderPuzzle parses it as a puzzle
+ * package and only accepts it once the package passes the schema and its reference solution passes its own tests.
+ * Providers run on the server, in the puzzle-generate edge function, so generated hidden tests stay there.
+ */
+import { type Difficulty } from '../types';
+import { parsePuzzleFiles, type BankPuzzle, type PuzzleFiles } from './puzzleBank';
+import { splitPuzzlePackage, type PuzzleMode, type PuzzlePackage } from './puzzleSchema';
+import { checkPuzzle } from './puzzleValidation';
+
+export interface PuzzleRequest {
+  mode: PuzzleMode;
+  difficulty?: Difficulty;
+  topic?: string;
+  seed?: number; // providers that sample should sample deterministically from this
+}
+
+export interface PuzzleProvider {
+  readonly name: string;
+  generate(request: PuzzleRequest): Promise<string>; // raw output, expected to hold a GeneratedPuzzlePackage as JSON
+}
+
+// What a provider is asked to produce: puzzle.json with the contents of prompt.md alongside
+export interface GeneratedPuzzlePackage extends PuzzlePackage {
+  prompt: string;
+}
+
+export interface PuzzleProviderConfig {
+  provider?: string; // "llama-cpp" or "stub"; anything else means no provider
+  llamaServerUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface LlamaCppOptions {
+  serverUrl: string; // llama.cpp server root, e.g. http://localhost:8080
+  timeoutMs?: number;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export const DEFAULT_LLAMA_SERVER_URL = 'http://localhost:8080';
+
+// Writing a whole puzzle takes a local model a while; anything slower falls back to the bank
+export const DEFAULT_GENERATION_TIMEOUT_MS = 60000;
+
+/**
+ * Provider for llama.cpp's HTTP server (llama-server), using its native /completion endpoint
+ */
+export class LlamaCppProvider implements PuzzleProvider {
+  readonly name = 'llama.cpp';
+
+  constructor(private readonly options: LlamaCppOptions) {}
+
+  async generate(request: PuzzleRequest): Promise<string> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs ?? DEFAULT_GENERATION_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.options.serverUrl.replace(/\/+$/, '')}/completion`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+        body: JSON.stringify({
+          prompt: buildPuzzlePrompt(request),
+          n_predict: this.options.maxTokens ?? 2048,
+          temperature: this.options.temperature ?? 0.7,
+          seed: request.seed,
+          json_schema: { type: 'object' }, // constrains sampling to a single JSON object
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`llama.cpp server responded with ${response.status} ${response.statusText}`);
+      }
+
+      const { content } = await response.json() as { content?: unknown };
+      if (typeof content !== 'string') {
+        throw new Error('llama.cpp server response has no content');
+      }
+      return content;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`llama.cpp server did not answer within ${this.options.timeoutMs ?? DEFAULT_GENERATION_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Offline provider that always writes the same puzzle, adjusted to the request.
+ * Passing output replaces it, e.g. to feed the generator a broken puzzle.
+ */
+export class StubPuzzleProvider implements PuzzleProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly output?: string) {}
+
+  async generate(request: PuzzleRequest): Promise<string> {
+    if (this.output !== undefined) return this.output;
+
+    return JSON.stringify({
+      ...STUB_PUZZLE,
+      difficulty: request.difficulty ?? STUB_PUZZLE.difficulty,
+      modes: [request.mode],
+      tags: [...new Set([...STUB_PUZZLE.tags, ...(request.topic ? [request.topic] : [])])],
+    });
+  }
+}
+
+/**
+ * The configured provider, or null when puzzles only come from the bank.
+ * The puzzle-generate edge function reads the config from PUZZLE_PROVIDER, LLAMA_SERVER_URL and PUZZLE_GENERATION_TIMEOUT.
+ */
+export function createPuzzleProvider(config: PuzzleProviderConfig): PuzzleProvider | null {
+  switch (config.provider) {
+    case 'llama-cpp':
+      return new LlamaCppProvider({
+        serverUrl: config.llamaServerUrl || DEFAULT_LLAMA_SERVER_URL,
+        timeoutMs: config.timeoutMs,
+      });
+    case 'stub':
+      return new StubPuzzleProvider();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Ask a provider for a puzzle and check it the way the bank's puzzles are checked.
+ * The puzzle is stored under id when given, since models cannot be trusted to pick unique ids.
+ * Throws with the reason when the output is not a usable puzzle for this request.
+ */
+export async function generateProviderPuzzle(
+  provider: PuzzleProvider,
+  request: PuzzleRequest,
+  id?: string
+): Promise<{ puzzle: BankPuzzle; files: PuzzleFiles }> {
+  const output = await provider.generate(request);
+  const { prompt, ...data } = parseProviderOutput(output);
+
+  if (typeof prompt !== 'string') {
+    throw new Error('Generated puzzle has no prompt');
+  }
+  if (id !== undefined) {
+    data.id = id;
+  }
+
+  // Generated packages go through the same parser and schema as files in the bank
+  const files = toGeneratedPuzzleFiles(data, prompt);
+  const puzzle = parsePuzzleFiles(String(data.id), files);
+
+  if (!puzzle.modes.includes(request.mode)) {
+    throw new Error(`Generated puzzle is not a ${request.mode} puzzle`);
+  }
+  if (request.difficulty && puzzle.difficulty !== request.difficulty) {
+    throw new Error(`Generated puzzle is ${puzzle.difficulty}, not ${request.difficulty}`);
+  }
+  // A generated puzzle is already a fresh instance, and its seed would mean nothing to the bank
+  if (puzzle.template) {
+    throw new Error('Generated puzzles cannot be templates');
+  }
+  if (!puzzle.referenceSolution) {
+    throw new Error('Generated puzzle has no reference solution to check its tests with');
+  }
+
+  // One run is enough here; flakiness across runs is what the bank validator is for
+  const errors = (await checkPuzzle(puzzle, { runs: 1 })).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Generated puzzle failed validation: ${errors.map(issue => issue.message).join('; ')}`);
+  }
+
+  return { puzzle, files };
+}
+
+/**
+ * Lay out a generated package the way the bank stores it on disk, with hidden fields in hidden.json.
+ * Models write one object, and the placement check would otherwise reject their hidden tests.
+ */
+export function toGeneratedPuzzleFiles(data: Record<string, unknown>, prompt: string): PuzzleFiles {
+  const { puzzle, hidden } = splitPuzzlePackage(data as unknown as PuzzlePackage);
+  return {
+    puzzleJson: JSON.stringify(puzzle),
+    hiddenJson: JSON.stringify(hidden),
+    promptMarkdown: prompt,
+  };
+}
+
+/**
+ * Instructions for writing one puzzle package, with the stub puzzle as a worked example
+ */
+export function buildPuzzlePrompt(request: PuzzleRequest): string {
+  const example = JSON.stringify(STUB_PUZZLE, null, 2);
+
+  return `You write coding puzzles for a competitive programming game.
+
+Write one new ${request.difficulty ?? 'easy'} ${request.mode} puzzle${request.topic ? ` about ${request.topic}` : ''}.
+Answer with a single JSON object and nothing else, using the same fields as this example:
+
+${example}
+
+Rules:
+- "id" is lowercase words separated by hyphens; "version" is 1.
+- "difficulty" is "${request.difficulty ?? 'easy'}" and "modes" is ["${request.mode}"].
+- "prompt" is the problem statement in Markdown, with examples and the JavaScript function signature.
+- Test inputs are the function's arguments written as JSON values separated by commas; expected outputs are JSON.
+- "referenceSolution" is a correct JavaScript function that passes every test and hidden test.
+- Code fields may be a string or a list of lines.${request.mode === 'practice' ? '\n- Include at least two "hints".' : ''}
+`;
+}
+
+function parseProviderOutput(output: string): Record<string, unknown> {
+  // Models like to wrap JSON in a Markdown fence or add a sentence around it
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Generated output contains no JSON object');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(output.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Generated output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Generated output is not a JSON object');
+  }
+  return data as Record<string, unknown>;
+}
+
+const STUB_PUZZLE: GeneratedPuzzlePackage = {
+  id: 'sum-of-evens',
+  version: 1,
+  title: 'Sum of Even Numbers',
+  difficulty: 'easy',
+  tags: ['arrays', 'math'],
+  modes: ['duel'],
+  prompt: [
+    'Return the sum of the even numbers in an array of integers.',
+    '',
+    'An empty array, or one without even numbers, sums to 0.',
+    '',
+    'Examples:',
+    '- [1, 2, 3, 4] → 6',
+    '- [1, 3, 5] → 0',
+    '',
+    'Function signature:',
+    'function sumOfEvens(nums) {',
+    '  // Your code here',
+    '}',
+  ].join('\n'),
+  starterCode: {
+    javascript: ['function sumOfEvens(nums) {', '  // Your code here', '}'],
+    python: ['def sum_of_evens(nums):', '    # Your code here', '    pass', ''],
+  },
+  signature: { params: ['any'] },
+  tests: [
+    { input: '[1, 2, 3, 4]', expected: '6' },
+    { input: '[1, 3, 5]', expected: '0' },
+  ],
+  hiddenTests: [
+    { input: '[]', expected: '0' },
+    { input: '[-2, -3, 8]', expected: '6' },
+    { input: '[0, 10, 11]', expected: '10' },
+  ],
+  hints: [
+    'A number is even when dividing it by 2 leaves no remainder.',
+    'Negative even numbers count too.',
+  ],
+  referenceSolution: [
+    'function sumOfEvens(nums) {',
+    '  return nums.filter(n => n % 2 === 0).reduce((sum, n) => sum + n, 0);',
+    '}',
+  ],
+};
@@ -0,0 +1,345 @@
+/**
+ * Puzzle Schema - The file format of the puzzle bank and its validator
+ * Each puzzle is a directory under puzzles/ holding puzzle.json, the prompt.md shown to players and an
+ * optional hidden.json with everything only the judge may see. The app bundles the first two; hidden.json
+ * is read by Node scripts and published to the server (see serverPuzzleBank.ts).
+ */
+import { type Difficulty, type Language } from '../types';
+import { type BuiltInComparatorSpec, type ComparatorSpec } from './comparators';
+import { type FunctionSignature, type ParamType } from './structures';
+
+// Code may be written as one string or as an array of lines, which keeps multi-line code readable in JSON
+export type PuzzleCode = string | string[];
+
+// Duel puzzles are judged against hidden tests; practice puzzles come with hints
+export type PuzzleMode = 'duel' | 'practice';
+
+export type PuzzleComparator = BuiltInComparatorSpec | { type: 'custom'; checker: PuzzleCode };
+
+export interface PuzzlePackageTest {
+  input: string;
+  expected: string;
+  comparator?: PuzzleComparator;
+}
+
+export interface PuzzleLimits {
+  memoryMb?: number; // per-call heap limit; the sandbox default applies when unset
+  timeLimitSeconds?: number; // duel clock; the caller's default applies when unset
+}
+
+// Turns the puzzle into a family of instances; see puzzleTemplates.ts
+export interface PuzzleTemplate {
+  parameters: PuzzleCode; // (random) => { name: value }; values fill {{name}} in the title, prompt, hints, starter code and reference
+  tests?: { generator: PuzzleCode; count: number; comparator?: PuzzleComparator }; // (random, parameters) => argument list
+}
+
+export interface PuzzlePackage {
+  id: string; // same as the directory name
+  version: number; // bumped whenever tests or limits change, so stored duels know which revision they used
+  title: string;
+  difficulty: Difficulty;
+  tags: string[];
+  modes: PuzzleMode[];
+  languages?: Language[]; // accepted submission languages; defaults to DEFAULT_PUZZLE_LANGUAGES
+  starterCode?: Partial<Record<Language, PuzzleCode>>;
+  signature?: FunctionSignature;
+  tests: PuzzlePackageTest[];
+  hiddenTests?: PuzzlePackageTest[];
+  hints?: string[];
+  limits?: PuzzleLimits;
+  referenceSolution?: PuzzleCode; // JavaScript, or a query for SQL puzzles; checked by npm run puzzles:validate
+  sqlSchema?: PuzzleCode;
+  inputGenerator?: { generator: PuzzleCode; sizes?: number[] };
+  fuzz?: { generator: PuzzleCode; runs?: number; maxSize?: number; comparator?: PuzzleComparator };
+  template?: PuzzleTemplate;
+}
+
+// The part of a package kept in hidden.json; merged back over puzzle.json wherever hidden.json is available
+export interface PuzzleHiddenPackage {
+  hiddenTests?: PuzzlePackageTest[];
+  referenceSolution?: PuzzleCode;
+  fuzz?: PuzzlePackage['fuzz'];
+  template?: Pick<PuzzleTemplate, 'tests'>;
+}
+
+export interface PuzzleValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const HIDDEN_FIELDS = ['hiddenTests', 'referenceSolution', 'fuzz'] as const;
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const LANGUAGES: Language[] = ['javascript', 'typescript', 'python', 'sql'];
+const MODES: PuzzleMode[] = ['duel', 'practice'];
+const PARAM_TYPES: ParamType[] = ['any', 'ListNode', 'TreeNode', 'Graph', 'Matrix'];
+const COMPARATOR_TYPES: ComparatorSpec['type'][] = ['exact', 'numeric', 'unordered', 'set-of-arrays', 'multiline-trimmed', 'custom'];
+
+// Lowercase words joined by hyphens, so ids work as directory names and in URLs
+const PUZZLE_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export function joinPuzzleCode(code: PuzzleCode): string {
+  return Array.isArray(code) ? code.join('\n') : code;
+}
+
+/**
+ * Combine puzzle.json and hidden.json into one package
+ */
+export function mergePuzzlePackage(data: Record<string, unknown>, hidden: Record<string, unknown>): Record<string, unknown> {
+  const { template, ...rest } = hidden;
+  const merged = { ...data, ...rest };
+  if (isRecord(template)) {
+    merged.template = { ...(isRecord(data.template) ? data.template : {}), ...template };
+  }
+  return merged;
+}
+
+/**
+ * Separate a complete package into what may be bundled into the app and what only the judge may see
+ */
+export function splitPuzzlePackage(data: PuzzlePackage): { puzzle: PuzzlePackage; hidden: PuzzleHiddenPackage } {
+  const { hiddenTests, referenceSolution, fuzz, template, ...rest } = data;
+  const puzzle: PuzzlePackage = rest;
+  const hidden: PuzzleHiddenPackage = { hiddenTests, referenceSolution, fuzz };
+
+  if (template) {
+    const { tests, ...publicTemplate } = template;
+    puzzle.template = publicTemplate;
+    if (tests) hidden.template = { tests };
+  }
+
+  return { puzzle, hidden };
+}
+
+/**
+ * Check that hidden fields are in hidden.json and nothing else is, so a misplaced field cannot end up in the app bundle
+ */
+export function validatePuzzleFilePlacement(data: unknown, hidden?: unknown): PuzzleValidationResult {
+  const errors: string[] = [];
+
+  if (isRecord(data)) {
+    for (const field of HIDDEN_FIELDS) {
+      if (data[field] !== undefined) errors.push(`${field} belongs in hidden.json`);
+    }
+    if (isRecord(data.template) && data.template.tests !== undefined) {
+      errors.push('template.tests belongs in hidden.json');
+    }
+  }
+
+  if (hidden !== undefined) {
+    if (!isRecord(hidden)) {
+      errors.push('hidden.json must contain an object');
+    } else {
+      for (const [field, value] of Object.entries(hidden)) {
+        if (field === 'template') {
+          if (!isRecord(value) || Object.keys(value).some(key => key !== 'tests')) {
+            errors.push('hidden.json may only hold template.tests of the template');
+          } else if (!isRecord(data) || data.template === undefined) {
+            errors.push('hidden.json has template.tests but puzzle.json has no template');
+          }
+        } else if (!(HIDDEN_FIELDS as readonly string[]).includes(field)) {
+          errors.push(`${field} belongs in puzzle.json`);
+        }
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check a parsed package (puzzle.json with hidden.json merged in, when available) against the schema,
+ * collecting every problem rather than stopping at the first
+ */
+export function validatePuzzlePackage(data: unknown, directory?: string): PuzzleValidationResult {
+  const errors: string[] = [];
+  const check = (condition: boolean, message: string) => {
+    if (!condition) errors.push(message);
+  };
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['puzzle.json must contain an object'] };
+  }
+
+  check(typeof data.id === 'string' && PUZZLE_ID_PATTERN.test(data.id), 'id must be lowercase words separated by hyphens');
+  check(directory === undefined || data.id === directory, `id must match its directory name "${directory}"`);
+  check(Number.isInteger(data.version) && (data.version as number) > 0, 'version must be a positive integer');
+  check(typeof data.title === 'string' && data.title.trim() !== '', 'title is required');
+  check(DIFFICULTIES.includes(data.difficulty as Difficulty), `difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  check(isStringArray(data.tags) && data.tags.length > 0, 'tags must be a non-empty list of strings');
+  check(
+    Array.isArray(data.modes) && data.modes.length > 0 && data.modes.every(mode => MODES.includes(mode)),
+    `modes must list at least one of ${MODES.join(', ')}`
+  );
+
+  if (data.languages !== undefined) {
+    check(
+      Array.isArray(data.languages) && data.languages.length > 0 && data.languages.every(language => LANGUAGES.includes(language)),
+      `languages must list at least one of ${LANGUAGES.join(', ')}`
+    );
+  }
+
+  if (data.starterCode !== undefined) {
+    if (isRecord(data.starterCode)) {
+      for (const [language, code] of Object.entries(data.starterCode)) {
+        check(LANGUAGES.includes(language as Language), `starterCode has unknown language "${language}"`);
+        check(isPuzzleCode(code), `starterCode.${language} must be a string or a list of lines`);
+      }
+    } else {
+      errors.push('starterCode must map languages to code');
+    }
+  }
+
+  if (data.signature !== undefined) {
+    errors.push(...validateSignature(data.signature));
+  }
+
+  if (Array.isArray(data.tests) && data.tests.length > 0) {
+    data.tests.forEach((test, index) => errors.push(...validateTest(test, `tests[${index}]`)));
+  } else {
+    errors.push('tests must contain at least one sample test');
+  }
+
+  if (data.hiddenTests !== undefined) {
+    if (Array.isArray(data.hiddenTests)) {
+      data.hiddenTests.forEach((test, index) => errors.push(...validateTest(test, `hiddenTests[${index}]`)));
+    } else {
+      errors.push('hiddenTests must be a list');
+    }
+  }
+
+  if (data.hints !== undefined) {
+    check(isStringArray(data.hints), 'hints must be a list of strings');
+  }
+
+  if (data.limits !== undefined) {
+    if (isRecord(data.limits)) {
+      check(data.limits.memoryMb === undefined || isPositiveNumber(data.limits.memoryMb), 'limits.memoryMb must be a positive number');
+      check(
+        data.limits.timeLimitSeconds === undefined || isPositiveNumber(data.limits.timeLimitSeconds),
+        'limits.timeLimitSeconds must be a positive number'
+      );
+    } else {
+      errors.push('limits must be an object');
+    }
+  }
+
+  for (const field of ['referenceSolution', 'sqlSchema'] as const) {
+    check(data[field] === undefined || isPuzzleCode(data[field]), `${field} must be a string or a list of lines`);
+  }
+
+  const isSql = Array.isArray(data.languages) && data.languages.includes('sql');
+  check(!isSql || data.sqlSchema !== undefined, 'SQL puzzles need an sqlSchema');
+
+  if (data.inputGenerator !== undefined) {
+    if (isRecord(data.inputGenerator)) {
+      check(isPuzzleCode(data.inputGenerator.generator), 'inputGenerator.generator must be a string or a list of lines');
+      check(
+        data.inputGenerator.sizes === undefined ||
+          (Array.isArray(data.inputGenerator.sizes) && data.inputGenerator.sizes.every(isPositiveNumber)),
+        'inputGenerator.sizes must be a list of positive numbers'
+      );
+    } else {
+      errors.push('inputGenerator must be an object');
+    }
+  }
+
+  if (data.fuzz !== undefined) {
+    if (isRecord(data.fuzz)) {
+      check(isPuzzleCode(data.fuzz.generator), 'fuzz.generator must be a string or a list of lines');
+      check(data.fuzz.runs === undefined || isPositiveNumber(data.fuzz.runs), 'fuzz.runs must be a positive number');
+      check(data.fuzz.maxSize === undefined || isPositiveNumber(data.fuzz.maxSize), 'fuzz.maxSize must be a positive number');
+      check(data.referenceSolution !== undefined, 'fuzz needs a referenceSolution to compare against');
+      if (data.fuzz.comparator !== undefined) {
+        errors.push(...validateComparator(data.fuzz.comparator, 'fuzz.comparator'));
+      }
+    } else {
+      errors.push('fuzz must be an object');
+    }
+  }
+
+  if (data.template !== undefined) {
+    errors.push(...validateTemplate(data.template, data));
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+function validateTemplate(template: unknown, data: Record<string, unknown>): string[] {
+  if (!isRecord(template)) return ['template must be an object'];
+
+  const errors: string[] = [];
+  if (!isPuzzleCode(template.parameters)) {
+    errors.push('template.parameters must be a string or a list of lines');
+  }
+  if (template.tests !== undefined) {
+    if (!isRecord(template.tests)) return [...errors, 'template.tests must be an object'];
+
+    if (!isPuzzleCode(template.tests.generator)) errors.push('template.tests.generator must be a string or a list of lines');
+    if (!Number.isInteger(template.tests.count) || (template.tests.count as number) < 1) {
+      errors.push('template.tests.count must be a positive integer');
+    }
+    if (template.tests.comparator !== undefined) {
+      errors.push(...validateComparator(template.tests.comparator, 'template.tests.comparator'));
+    }
+    if (data.referenceSolution === undefined || (Array.isArray(data.languages) && data.languages.includes('sql'))) {
+      errors.push('template.tests need a JavaScript referenceSolution to compute expected outputs');
+    }
+  }
+  return errors;
+}
+
+function validateTest(test: unknown, path: string): string[] {
+  if (!isRecord(test)) return [`${path} must be an object`];
+
+  const errors: string[] = [];
+  if (typeof test.input !== 'string') errors.push(`${path}.input must be a string`);
+  if (typeof test.expected !== 'string') errors.push(`${path}.expected must be a string`);
+  if (test.comparator !== undefined) errors.push(...validateComparator(test.comparator, `${path}.comparator`));
+  return errors;
+}
+
+function validateComparator(comparator: unknown, path: string): string[] {
+  if (!isRecord(comparator) || !COMPARATOR_TYPES.includes(comparator.type as ComparatorSpec['type'])) {
+    return [`${path}.type must be one of ${COMPARATOR_TYPES.join(', ')}`];
+  }
+  if (comparator.type === 'custom' && !isPuzzleCode(comparator.checker)) {
+    return [`${path}.checker must be a string or a list of lines`];
+  }
+  if (comparator.type === 'numeric' && comparator.tolerance !== undefined && typeof comparator.tolerance !== 'number') {
+    return [`${path}.tolerance must be a number`];
+  }
+  return [];
+}
+
+function validateSignature(signature: unknown): string[] {
+  if (!isRecord(signature)) return ['signature must be an object'];
+
+  const errors: string[] = [];
+  if (!Array.isArray(signature.params) || !signature.params.every(param => PARAM_TYPES.includes(param))) {
+    errors.push(`signature.params must list types from ${PARAM_TYPES.join(', ')}`);
+  }
+  if (signature.returns !== undefined && !PARAM_TYPES.includes(signature.returns as ParamType)) {
+    errors.push(`signature.returns must be one of ${PARAM_TYPES.join(', ')}`);
+  }
+  if (signature.kind !== undefined && signature.kind !== 'function' && signature.kind !== 'class') {
+    errors.push('signature.kind must be "function" or "class"');
+  }
+  return errors;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPuzzleCode(value: unknown): value is PuzzleCode {
+  return typeof value === 'string' || isStringArray(value);
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && value > 0;
+}
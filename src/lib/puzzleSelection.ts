@@ -0,0 +1,175 @@
+/**
+ * Puzzle Selection - Picks the bank puzzle that is fairest for the players about to face it
+ * Each player is summarized by a fingerprint of their history. A fair puzzle is one nobody has
+ * seen, that everyone can solve in their preferred language, and whose tags favour neither player.
+ */
+import { type Language } from '../types';
+import { preferredPuzzleLanguage, type CodingStyle } from './codingStyle';
+import { DEFAULT_PUZZLE_LANGUAGES } from './languages';
+import { type BankPuzzle, type PuzzleBank } from './puzzleBank';
+
+export interface TagRecord {
+  wins: number;
+  losses: number;
+}
+
+export interface PlayerFingerprint {
+  userId: string;
+  solvedTopics: Record<string, number>; // tag → puzzles solved, in duels or practice
+  tagRecords: Record<string, TagRecord>; // tag → duel results
+  seenPuzzles: string[]; // bank ids of every puzzle the player has been given
+  preferredLanguage?: Language; // most used submission language, else the main language of their own code
+}
+
+// The rows a fingerprint is built from, newest first
+export interface PlayerHistory {
+  duels: Array<{ puzzleId: string | null; result?: 'win' | 'loss' | 'draw' }>; // result is unset for unfinished duels
+  practice: Array<{ puzzleId: string | null; completed: boolean }>;
+  languages: Language[]; // one per submission
+  codingStyle?: CodingStyle | null; // analysis of the player's own code, if they shared some
+}
+
+export interface SelectionReason {
+  source: 'bank' | 'generated';
+  provider?: string; // generated puzzles only
+  players: string[]; // user ids whose fingerprints were considered
+  candidates?: number; // bank puzzles matching the mode, difficulty and topic
+  unseen?: number; // candidates no player had seen
+  strengths?: Record<string, number>; // user id → estimated strength on the chosen puzzle's tags, 0-1
+  imbalance?: number; // largest gap between two players' strengths
+  summary: string;
+}
+
+// Puzzles whose imbalance is within this much of the best are equally fair; one is picked at random
+export const FAIRNESS_TOLERANCE = 0.05;
+
+/**
+ * Summarize a player's history. Puzzles are looked up in the bank for their tags, so puzzles
+ * that have since left the bank still count as seen but not towards any tag.
+ */
+export function buildFingerprint(userId: string, history: PlayerHistory, bank: PuzzleBank): PlayerFingerprint {
+  const fingerprint: PlayerFingerprint = { userId, solvedTopics: {}, tagRecords: {}, seenPuzzles: [] };
+  const seen = new Set<string>();
+
+  for (const duel of history.duels) {
+    if (!duel.puzzleId) continue;
+    seen.add(duel.puzzleId);
+
+    for (const tag of bank.get(duel.puzzleId)?.tags ?? []) {
+      const record = fingerprint.tagRecords[tag] ??= { wins: 0, losses: 0 };
+      if (duel.result === 'win') {
+        record.wins++;
+        fingerprint.solvedTopics[tag] = (fingerprint.solvedTopics[tag] ?? 0) + 1;
+      } else if (duel.result === 'loss') {
+        record.losses++;
+      }
+    }
+  }
+
+  for (const session of history.practice) {
+    if (!session.puzzleId) continue;
+    seen.add(session.puzzleId);
+
+    if (session.completed) {
+      for (const tag of bank.get(session.puzzleId)?.tags ?? []) {
+        fingerprint.solvedTopics[tag] = (fingerprint.solvedTopics[tag] ?? 0) + 1;
+      }
+    }
+  }
+
+  fingerprint.seenPuzzles = [...seen];
+  fingerprint.preferredLanguage = mostCommon(history.languages) ??
+    (history.codingStyle ? preferredPuzzleLanguage(history.codingStyle) : undefined);
+  return fingerprint;
+}
+
+/**
+ * Estimated chance a player does well on puzzles with these tags, from 0 to 1; 0.5 without history.
+ * Duel results are smoothed towards 0.5, and a practice solve counts as half a duel win.
+ */
+export function tagStrength(fingerprint: PlayerFingerprint, tags: string[]): number {
+  if (tags.length === 0) return 0.5;
+
+  const strengths = tags.map(tag => {
+    const record = fingerprint.tagRecords[tag] ?? { wins: 0, losses: 0 };
+    const duelSolves = record.wins;
+    const practiceSolves = Math.max(0, (fingerprint.solvedTopics[tag] ?? 0) - duelSolves);
+    const wins = record.wins + practiceSolves / 2;
+    return (wins + 1) / (wins + record.losses + 2);
+  });
+
+  return strengths.reduce((sum, strength) => sum + strength, 0) / strengths.length;
+}
+
+export function hasSeen(puzzle: BankPuzzle, players: PlayerFingerprint[]): boolean {
+  return players.some(player => player.seenPuzzles.includes(puzzle.id));
+}
+
+/**
+ * Pick the fairest of the candidates for these players. Every filter is dropped again when it would
+ * leave nothing, so a player who has seen the whole bank still gets a puzzle.
+ */
+export function selectFairPuzzle(
+  candidates: BankPuzzle[],
+  players: PlayerFingerprint[],
+  random: () => number = Math.random
+): { puzzle: BankPuzzle; reason: SelectionReason } {
+  if (candidates.length === 0) {
+    throw new Error('No puzzles to select from');
+  }
+
+  const unseen = candidates.filter(puzzle => !hasSeen(puzzle, players));
+  const fresh = unseen.length > 0 ? unseen : candidates;
+
+  const playable = fresh.filter(puzzle => players.every(player => acceptsLanguage(puzzle, player.preferredLanguage)));
+  const pool = playable.length > 0 ? playable : fresh;
+
+  const scored = pool.map(puzzle => {
+    const strengths = players.map(player => tagStrength(player, puzzle.tags));
+    return { puzzle, strengths, imbalance: strengths.length > 1 ? Math.max(...strengths) - Math.min(...strengths) : 0 };
+  });
+  const fairest = Math.min(...scored.map(entry => entry.imbalance));
+  const choices = scored.filter(entry => entry.imbalance <= fairest + FAIRNESS_TOLERANCE);
+  const choice = choices[Math.floor(random() * choices.length)];
+
+  const notes = [
+    unseen.length > 0 ? 'unseen by every player' : 'every candidate had been seen',
+    playable.length > 0 ? 'in everyone\'s preferred language' : 'not in everyone\'s preferred language',
+  ];
+  if (players.length > 1) {
+    notes.push(`tag strengths ${choice.strengths.map(strength => strength.toFixed(2)).join(' vs ')}`);
+  }
+
+  return {
+    puzzle: choice.puzzle,
+    reason: {
+      source: 'bank',
+      players: players.map(player => player.userId),
+      candidates: candidates.length,
+      unseen: unseen.length,
+      strengths: Object.fromEntries(players.map((player, index) => [player.userId, round(choice.strengths[index])])),
+      imbalance: round(choice.imbalance),
+      summary: `Picked "${choice.puzzle.id}" from ${candidates.length} candidate(s): ${notes.join(', ')}`,
+    },
+  };
+}
+
+function acceptsLanguage(puzzle: BankPuzzle, language?: Language): boolean {
+  if (!language) return true;
+  return (puzzle.languages ?? DEFAULT_PUZZLE_LANGUAGES).includes(language);
+}
+
+function mostCommon<T>(items: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  let best: T | undefined;
+  for (const item of items) {
+    const count = (counts.get(item) ?? 0) + 1;
+    counts.set(item, count);
+    if (best === undefined || count > (counts.get(best) ?? 0)) best = item;
+  }
+  return best;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,137 @@
+/**
+ * Puzzle Templates - Fresh but equivalent instances of a bank puzzle, generated from a seed
+ * A template picks parameters such as the story, function name, sizes and value ranges with a
+ * seeded generator, fills {{name}} placeholders with them and adds hidden tests whose expected
+ * outputs come from the reference solution. The same puzzle version and seed always give the same instance.
+ */
+import { type ComparatorSpec } from './comparators';
+import { formatFuzzInput } from './fuzzing';
+import { type GeneratedPuzzle, type PuzzleTest } from './puzzleGenerator';
+import { SandboxHost } from './sandboxHost';
+import { runCustomTests } from './sandboxRunner';
+
+export type TemplateParameters = Record<string, string | number>;
+
+export interface PuzzleTemplateSpec {
+  parameters: string; // (random) => TemplateParameters, run in the sandbox with a seeded generator
+  tests?: {
+    generator: string; // (random, parameters) => argument list in the same JSON form as a test input
+    count: number; // hidden tests added to every instance
+    comparator?: ComparatorSpec; // for answers with several valid forms
+  };
+}
+
+// Parameter and test generation are meant to be instant; anything slower is a broken template
+export const TEMPLATE_TIMEOUT_MS = 5000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Replace {{name}} placeholders; unknown names are left in place so validation can spot them
+ */
+export function fillPlaceholders(text: string, parameters: TemplateParameters): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(parameters, name) ? String(parameters[name]) : placeholder
+  );
+}
+
+/**
+ * Placeholder names still present in a text
+ */
+export function findPlaceholders(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Wrap a template's generators so one sandbox call picks the parameters and every generated input.
+ * Math.random is fixed inside the sandbox, so both receive the same seeded generator instead.
+ */
+export function createTemplateWrapper(template: PuzzleTemplateSpec): string {
+  return `
+const __random = createRandom(__args[0]);
+const __parameters = (${template.parameters})(__random);
+const __tests = ${template.tests ? `(${template.tests.generator})` : 'null'};
+const __inputs = [];
+for (let i = 0; i < ${template.tests?.count ?? 0}; i++) {
+  __inputs.push(__tests(__random, __parameters));
+}
+return { parameters: __parameters, inputs: __inputs };
+`;
+}
+
+/**
+ * Generate the instance of a templated puzzle for a seed. Generated tests need a JavaScript
+ * reference solution to compute their expected outputs. The test generator lives in hidden.json,
+ * so in the browser an instance only gets its parameters; the judge regenerates the tests from the same seed.
+ */
+export async function instantiatePuzzle(
+  puzzle: GeneratedPuzzle & { template: PuzzleTemplateSpec },
+  seed: number
+): Promise<GeneratedPuzzle> {
+  const { template, ...base } = puzzle;
+  const { parameters, inputs } = await generateTemplateValues(template, seed);
+  const fill = (text: string) => fillPlaceholders(text, parameters);
+
+  const referenceSolution = base.referenceSolution && fill(base.referenceSolution);
+  const generatedTests: PuzzleTest[] = [];
+
+  if (inputs.length > 0) {
+    if (!referenceSolution || base.languages?.includes('sql')) {
+      throw new Error('Generated template tests need a JavaScript reference solution');
+    }
+
+    const formattedInputs = inputs.map(formatFuzzInput);
+    const results = await runCustomTests(referenceSolution, formattedInputs, 'javascript', TEMPLATE_TIMEOUT_MS, {
+      signature: base.signature,
+      memoryLimitMb: base.memoryLimitMb,
+    });
+
+    results.forEach((result, index) => {
+      if (!result.passed) {
+        throw new Error(`Reference solution failed on generated input ${formattedInputs[index]}: ${result.error ?? result.status}`);
+      }
+      generatedTests.push({ input: formattedInputs[index], expected: result.actual, comparator: template.tests?.comparator });
+    });
+  }
+
+  return {
+    ...base,
+    seed,
+    title: base.title && fill(base.title),
+    prompt: fill(base.prompt),
+    hints: base.hints?.map(fill),
+    starterCode: base.starterCode &&
+      Object.fromEntries(Object.entries(base.starterCode).map(([language, code]) => [language, fill(code)])),
+    referenceSolution,
+    hiddenTests: [...(base.hiddenTests ?? []), ...generatedTests],
+  };
+}
+
+async function generateTemplateValues(
+  template: PuzzleTemplateSpec,
+  seed: number
+): Promise<{ parameters: TemplateParameters; inputs: unknown[][] }> {
+  const host = new SandboxHost();
+
+  try {
+    const outcome = await host.execute('javascript', createTemplateWrapper(template), [seed], TEMPLATE_TIMEOUT_MS);
+    if (outcome.status !== 'ok') {
+      throw new Error(`Template generator failed: ${outcome.status === 'timeout' ? 'timed out' : outcome.error}`);
+    }
+
+    const { parameters, inputs } = outcome.value as { parameters: unknown; inputs: unknown[] };
+    if (
+      typeof parameters !== 'object' || parameters === null ||
+      !Object.values(parameters).every(value => typeof value === 'string' || typeof value === 'number')
+    ) {
+      throw new Error('Template parameters must be an object of strings and numbers');
+    }
+    if (!inputs.every(Array.isArray)) {
+      throw new Error('Template test generator must return argument lists');
+    }
+
+    return { parameters: parameters as TemplateParameters, inputs: inputs as unknown[][] };
+  } finally {
+    host.dispose();
+  }
+}
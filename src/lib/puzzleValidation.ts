@@ -0,0 +1,254 @@
+/**
+ * Puzzle Validation - Checks on the puzzle bank that go beyond the file schema
+ * Reference solutions must pass every test on every run, tests must fit the declared signature,
+ * practice puzzles need hints and no two puzzles may tell the same story
+ */
+import { runCodeSandbox } from './sandboxRunner';
+import { buildArgument } from './structures';
+import { parseOperations } from './operations';
+import { type BankPuzzle } from './puzzleBank';
+import { findPlaceholders, instantiatePuzzle } from './puzzleTemplates';
+
+export type PuzzleIssueKind =
+  | 'invalid-package' // puzzle.json or prompt.md is missing, a field is in the wrong file or the schema is broken
+  | 'failing-test' // the reference solution disagrees with the expected output
+  | 'flaky-test' // the reference solution passes on some runs only
+  | 'reference-error' // the reference solution could not be run at all
+  | 'missing-reference' // expected outputs cannot be checked
+  | 'input-mismatch' // a test input does not fit the signature
+  | 'missing-hints' // practice puzzles are meant to come with hints
+  | 'template-error' // a template fails to instantiate, leaves placeholders or is not deterministic
+  | 'duplicate-prompt';
+
+export interface PuzzleIssue {
+  puzzleId: string;
+  kind: PuzzleIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PuzzleCheckOptions {
+  runs?: number; // times each reference solution is run to catch flaky tests; defaults to DEFAULT_VALIDATION_RUNS
+  timeoutMs?: number;
+}
+
+export const DEFAULT_VALIDATION_RUNS = 3;
+
+// Templated puzzles are checked through the instances these seeds produce
+export const TEMPLATE_CHECK_SEEDS = [1, 2, 3];
+
+// Share of word trigrams two prompts may have in common before they count as the same puzzle
+export const DUPLICATE_PROMPT_SIMILARITY = 0.5;
+
+/**
+ * Run every check on every puzzle. Puzzles are checked one at a time so a hung reference
+ * solution is easy to pin down.
+ */
+export async function checkPuzzles(puzzles: BankPuzzle[], options: PuzzleCheckOptions = {}): Promise<PuzzleIssue[]> {
+  const issues: PuzzleIssue[] = [];
+
+  for (const puzzle of puzzles) {
+    issues.push(...await checkPuzzle(puzzle, options));
+  }
+
+  return issues.concat(findDuplicatePrompts(puzzles));
+}
+
+/**
+ * Every check that looks at one puzzle on its own
+ */
+export async function checkPuzzle(puzzle: BankPuzzle, options: PuzzleCheckOptions = {}): Promise<PuzzleIssue[]> {
+  if (puzzle.template) {
+    return [...checkHints(puzzle), ...await checkTemplate(puzzle, options)];
+  }
+  return [...checkTestInputs(puzzle), ...checkHints(puzzle), ...await checkReferenceSolution(puzzle, options)];
+}
+
+/**
+ * Run the reference solution over all sample and hidden tests several times
+ */
+export async function checkReferenceSolution(puzzle: BankPuzzle, options: PuzzleCheckOptions = {}): Promise<PuzzleIssue[]> {
+  const issue = (kind: PuzzleIssueKind, message: string, severity: PuzzleIssue['severity'] = 'error'): PuzzleIssue =>
+    ({ puzzleId: puzzle.id, kind, severity, message });
+
+  if (!puzzle.referenceSolution) {
+    return [issue('missing-reference', 'No reference solution, so expected outputs are unchecked', 'warning')];
+  }
+
+  const tests = [...puzzle.tests, ...(puzzle.hiddenTests ?? [])];
+  // Reference solutions are JavaScript, or a query for SQL puzzles, whichever languages players may use
+  const language = puzzle.sqlSchema ? 'sql' : 'javascript';
+  const runs = options.runs ?? DEFAULT_VALIDATION_RUNS;
+  const outcomes: boolean[][] = tests.map(() => []);
+  const failures = new Map<number, string>();
+
+  for (let run = 0; run < runs; run++) {
+    const result = await runCodeSandbox(puzzle.referenceSolution, tests, language, options.timeoutMs, {
+      signature: puzzle.signature,
+      memoryLimitMb: puzzle.memoryLimitMb,
+      sqlSchema: puzzle.sqlSchema,
+    });
+
+    if (result.testResults.length === 0) {
+      return [issue('reference-error', `Reference solution did not run: ${result.error ?? 'no test results'}`)];
+    }
+
+    result.testResults.forEach((testResult, index) => {
+      outcomes[index]?.push(testResult.passed);
+      if (!testResult.passed && !failures.has(index)) {
+        failures.set(index, testResult.error ?? `expected ${testResult.expected}, got ${testResult.actual}`);
+      }
+    });
+  }
+
+  return outcomes.flatMap((passes, index) => {
+    const label = testLabel(puzzle, index);
+    if (passes.every(passed => passed)) return [];
+    if (passes.some(passed => passed)) {
+      return [issue('flaky-test', `${label} passed ${passes.filter(Boolean).length} of ${passes.length} runs (${failures.get(index)})`)];
+    }
+    return [issue('failing-test', `${label} fails against the reference solution: ${failures.get(index)}`)];
+  });
+}
+
+/**
+ * Instantiate a template with a few seeds and run the usual checks on each instance.
+ * Each seed is instantiated twice, since players and re-judging rely on getting the same instance back.
+ */
+export async function checkTemplate(puzzle: BankPuzzle, options: PuzzleCheckOptions = {}): Promise<PuzzleIssue[]> {
+  const { template } = puzzle;
+  if (!template) return [];
+
+  const issues: PuzzleIssue[] = [];
+  const templateError = (seed: number, message: string): PuzzleIssue =>
+    ({ puzzleId: puzzle.id, kind: 'template-error', severity: 'error', message: `Seed ${seed}: ${message}` });
+
+  for (const seed of TEMPLATE_CHECK_SEEDS) {
+    let instance: BankPuzzle;
+    try {
+      const [first, second] = [
+        await instantiatePuzzle({ ...puzzle, template }, seed),
+        await instantiatePuzzle({ ...puzzle, template }, seed),
+      ];
+      if (JSON.stringify(first) !== JSON.stringify(second)) {
+        issues.push(templateError(seed, 'the same seed produced different instances'));
+      }
+      instance = { ...puzzle, ...first, template: undefined };
+    } catch (error) {
+      issues.push(templateError(seed, error instanceof Error ? error.message : String(error)));
+      continue;
+    }
+
+    const texts = [
+      instance.title ?? '',
+      instance.prompt,
+      ...(instance.hints ?? []),
+      ...Object.values(instance.starterCode ?? {}),
+      instance.referenceSolution ?? '',
+    ];
+    const unfilled = findPlaceholders(texts.join('\n'));
+    if (unfilled.length > 0) {
+      issues.push(templateError(seed, `no parameter for ${unfilled.map(name => `{{${name}}}`).join(', ')}`));
+    }
+
+    const instanceIssues = [...checkTestInputs(instance), ...await checkReferenceSolution(instance, options)];
+    issues.push(...instanceIssues.map(issue => ({ ...issue, message: `Seed ${seed}: ${issue.message}` })));
+  }
+
+  return issues;
+}
+
+/**
+ * Check that every test input parses the way the sandbox will parse it for this puzzle
+ */
+export function checkTestInputs(puzzle: BankPuzzle): PuzzleIssue[] {
+  // SQL inputs are statements, checked only by running them
+  if (puzzle.languages?.includes('sql')) return [];
+
+  const tests = [...puzzle.tests, ...(puzzle.hiddenTests ?? [])];
+  return tests.flatMap((test, index) => {
+    const label = testLabel(puzzle, index);
+    try {
+      checkInput(test.input, puzzle);
+      return [];
+    } catch (error) {
+      return [{
+        puzzleId: puzzle.id,
+        kind: 'input-mismatch' as const,
+        severity: 'error' as const,
+        message: `${label} input does not match the signature: ${error instanceof Error ? error.message : String(error)}`,
+      }];
+    }
+  });
+}
+
+export function checkHints(puzzle: BankPuzzle): PuzzleIssue[] {
+  if (!puzzle.modes.includes('practice') || (puzzle.hints?.length ?? 0) > 0) return [];
+  return [{ puzzleId: puzzle.id, kind: 'missing-hints', severity: 'error', message: 'Practice puzzles need at least one hint' }];
+}
+
+/**
+ * Pairs of puzzles whose prompts are near copies of each other, reported once per pair
+ */
+export function findDuplicatePrompts(puzzles: BankPuzzle[]): PuzzleIssue[] {
+  const shingles = puzzles.map(puzzle => promptShingles(puzzle.prompt));
+  const issues: PuzzleIssue[] = [];
+
+  for (let i = 0; i < puzzles.length; i++) {
+    for (let j = i + 1; j < puzzles.length; j++) {
+      const similarity = jaccard(shingles[i], shingles[j]);
+      if (similarity >= DUPLICATE_PROMPT_SIMILARITY) {
+        issues.push({
+          puzzleId: puzzles[j].id,
+          kind: 'duplicate-prompt',
+          severity: 'error',
+          message: `Prompt is ${Math.round(similarity * 100)}% the same as "${puzzles[i].id}"`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkInput(input: string, puzzle: BankPuzzle) {
+  const { signature } = puzzle;
+
+  if (signature?.kind === 'class') {
+    parseOperations(input);
+    return;
+  }
+
+  const args: unknown = JSON.parse(`[${input.trim()}]`);
+  if (!Array.isArray(args)) {
+    throw new Error('Input is not an argument list');
+  }
+  if (!signature) return;
+
+  if (args.length !== signature.params.length) {
+    throw new Error(`expected ${signature.params.length} argument(s), got ${args.length}`);
+  }
+  signature.params.forEach((type, index) => buildArgument(args[index], type));
+}
+
+function testLabel(puzzle: BankPuzzle, index: number): string {
+  return index < puzzle.tests.length ? `Sample test ${index + 1}` : `Hidden test ${index - puzzle.tests.length + 1}`;
+}
+
+function promptShingles(prompt: string): Set<string> {
+  const words = prompt.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    shingles.add(words.slice(i, i + 3).join(' '));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,377 @@
+/**
+ * Python Runtime - Lazily loaded Pyodide interpreter for Python submissions
+ * Runs inside the sandbox worker; arguments and results cross the boundary as JSON
+ */
+import type { PyodideInterface } from 'pyodide';
+import { type LogCollector } from './consoleCapture';
+import { type MeasuredValue } from './sandboxExecutor';
+import { REPEAT_CUTOFF_MS } from './complexity';
+import { type FunctionSignature } from './structures';
+
+let runtimePromise: Promise<PyodideInterface> | null = null;
+
+// Modules that would hand submissions a bridge back into the JavaScript host, or let them search
+// the heap for objects still holding one
+const BLOCKED_MODULES = ['js', 'micropip', 'gc'];
+
+// Pyodide's own modules, such as pyodide_js and _pyodide._importhook, all start with one of these
+const BLOCKED_PREFIXES = ['pyodide', '_pyodide'];
+
+// Host objects Pyodide exposes as importable modules
+const JS_MODULES = ['js', 'pyodide_js'];
+
+// Well-known entry points, mirroring the JavaScript wrapper in snake_case
+const ENTRY_POINTS = [
+  'is_palindrome', 'isPalindrome', 'max_profit', 'maxProfit', 'two_sum', 'twoSum',
+  'longest_common_subsequence', 'longestCommonSubsequence', 'is_valid_bst', 'isValidBST',
+  'reverse_list', 'reverseList',
+  'solve', 'solution', 'main', 'answer',
+];
+
+const HARNESS = `
+import builtins
+import collections
+import json
+import re
+import sys
+import time
+import tracemalloc
+
+_BLOCKED_MODULES = set(${JSON.stringify(BLOCKED_MODULES)})
+_BLOCKED_PREFIXES = tuple(${JSON.stringify(BLOCKED_PREFIXES)})
+_ENTRY_POINTS = ${JSON.stringify(ENTRY_POINTS)}
+_REPEAT_CUTOFF_MS = ${REPEAT_CUTOFF_MS}
+_real_import = builtins.__import__
+
+def _is_blocked(name):
+    root = name.split('.')[0]
+    return root in _BLOCKED_MODULES or root.startswith(_BLOCKED_PREFIXES)
+
+def _guarded_import(name, *args, **kwargs):
+    if _is_blocked(name):
+        raise ImportError(f"import of '{name}' is not allowed")
+    return _real_import(name, *args, **kwargs)
+
+class _BlockedModuleFinder:
+    # importlib.import_module and friends skip builtins.__import__, but every import consults sys.meta_path
+    @classmethod
+    def find_spec(cls, name, path=None, target=None):
+        if _is_blocked(name):
+            raise ImportError(f"import of '{name}' is not allowed")
+        return None
+
+def _lock_down():
+    import gc
+    from pyodide.ffi import JsProxy
+
+    # The finder and loaders behind JavaScript imports keep the host objects they served,
+    # so they are emptied and taken off sys.meta_path in case a submission finds them anyway
+    for hook in gc.get_objects():
+        kind = type(hook).__name__
+        if kind == 'JsFinder':
+            hook.jsproxies.clear()
+        elif kind == 'JsLoader':
+            hook.jsproxy = None
+    sys.meta_path[:] = [finder for finder in sys.meta_path if type(finder).__name__ != 'JsFinder']
+
+    # Already imported modules would be handed out from sys.modules without asking any finder.
+    # Their functions stay reachable through objects such as the event loop, so they lose their host objects too.
+    for name in list(sys.modules):
+        if _is_blocked(name):
+            module = sys.modules.pop(name)
+            if isinstance(module, JsProxy):
+                continue
+            for attribute, value in list(vars(module).items()):
+                if isinstance(value, JsProxy):
+                    delattr(module, attribute)
+    sys.meta_path.insert(0, _BlockedModuleFinder)
+
+def _find_entry(namespace):
+    for name in _ENTRY_POINTS:
+        if callable(namespace.get(name)):
+            return namespace[name]
+    # LeetCode-style submissions wrap the answer in a Solution class
+    solution_class = namespace.get('Solution')
+    if isinstance(solution_class, type):
+        instance = solution_class()
+        for name in vars(solution_class):
+            if not name.startswith('_') and callable(getattr(instance, name)):
+                return getattr(instance, name)
+    # Otherwise fall back to the last function the submission defined
+    defined = [
+        value for value in namespace.values()
+        if callable(value) and getattr(getattr(value, '__code__', None), 'co_filename', None) == '<submission>'
+    ]
+    if defined:
+        return defined[-1]
+    raise NameError('No executable function found. Please define a function like two_sum, solve, solution, or main.')
+
+def _to_json(value):
+    if isinstance(value, (set, frozenset, tuple)):
+        return list(value)
+    raise TypeError(f"Return value of type {type(value).__name__} is not supported")
+
+# Structures mirror src/lib/structures.ts so both languages see the same shapes
+_MAX_STRUCTURE_NODES = 100000
+
+class ListNode:
+    def __init__(self, val=0, next=None):
+        self.val = val
+        self.next = next
+
+class TreeNode:
+    def __init__(self, val=0, left=None, right=None):
+        self.val = val
+        self.left = left
+        self.right = right
+
+class GraphNode:
+    def __init__(self, val=0, neighbors=None):
+        self.val = val
+        self.neighbors = neighbors if neighbors is not None else []
+
+def _build(value, kind):
+    if kind == 'ListNode':
+        head = None
+        for item in reversed(value or []):
+            head = ListNode(item, head)
+        return head
+    if kind == 'TreeNode':
+        values = value or []
+        if not values or values[0] is None:
+            return None
+        root = TreeNode(values[0])
+        queue = collections.deque([root])
+        index = 1
+        while queue and index < len(values):
+            node = queue.popleft()
+            if index < len(values) and values[index] is not None:
+                node.left = TreeNode(values[index])
+                queue.append(node.left)
+            index += 1
+            if index < len(values) and values[index] is not None:
+                node.right = TreeNode(values[index])
+                queue.append(node.right)
+            index += 1
+        return root
+    if kind == 'Graph':
+        adjacency = value or []
+        if not adjacency:
+            return None
+        nodes = [GraphNode(index + 1) for index in range(len(adjacency))]
+        for node, neighbors in zip(nodes, adjacency):
+            node.neighbors = [nodes[neighbor - 1] for neighbor in neighbors]
+        return nodes[0]
+    if kind == 'Matrix':
+        if any(len(row) != len(value[0]) for row in value):
+            raise TypeError('Matrix rows must all have the same length')
+        return [list(row) for row in value]
+    return value
+
+def _serialize(value, kind):
+    if kind == 'ListNode':
+        values = []
+        while value is not None:
+            if len(values) >= _MAX_STRUCTURE_NODES:
+                raise ValueError('Returned linked list is too long or contains a cycle')
+            values.append(value.val)
+            value = value.next
+        return values
+    if kind == 'TreeNode':
+        values = []
+        queue = collections.deque([value])
+        while queue:
+            if len(values) >= _MAX_STRUCTURE_NODES:
+                raise ValueError('Returned tree is too large or contains a cycle')
+            node = queue.popleft()
+            if node is None:
+                values.append(None)
+            else:
+                values.append(node.val)
+                queue.extend([node.left, node.right])
+        while values and values[-1] is None:
+            values.pop()
+        return values
+    if kind == 'Graph':
+        if value is None:
+            return []
+        visited = {value.val: value}
+        queue = collections.deque([value])
+        while queue:
+            for neighbor in queue.popleft().neighbors:
+                if neighbor.val not in visited:
+                    visited[neighbor.val] = neighbor
+                    queue.append(neighbor)
+        return [[neighbor.val for neighbor in visited[key].neighbors] for key in sorted(visited)]
+    return value
+
+def _method(instance, name):
+    # Method names are given in camelCase; snake_case implementations are accepted too
+    snake = re.sub(r'(?<!^)(?=[A-Z])', '_', name).lower()
+    for candidate in (name, snake):
+        method = getattr(instance, candidate, None)
+        if callable(method):
+            return method
+    return None
+
+def _replay(namespace, names, arg_lists):
+    # Mirrors createClassWrapper in src/lib/operations.ts
+    cls = namespace.get(names[0])
+    if not isinstance(cls, type):
+        raise NameError(f"No class named {names[0]} found. Please define class {names[0]}.")
+    outputs = []
+    try:
+        instance = cls(*arg_lists[0])
+        outputs.append(None)
+    except MemoryError:
+        raise
+    except Exception as error:
+        return {'outputs': outputs, 'error': {'index': 0, 'message': f"{type(error).__name__}: {error}"}}
+    for index in range(1, len(names)):
+        method = _method(instance, names[index])
+        if method is None:
+            return {'outputs': outputs, 'error': {'index': index, 'message': f"{names[index]} is not a method of {names[0]}"}}
+        try:
+            outputs.append(method(*arg_lists[index]))
+        except MemoryError:
+            raise
+        except Exception as error:
+            return {'outputs': outputs, 'error': {'index': index, 'message': f"{type(error).__name__}: {error}"}}
+    return {'outputs': outputs}
+
+def byteduel_run(source, args_json, signature_json, repeat=1, benchmark=False):
+    builtins.__import__ = _guarded_import
+    try:
+        signature = json.loads(signature_json)
+        params = signature.get('params', []) if signature else []
+        namespace = {'__name__': '__main__', 'ListNode': ListNode, 'TreeNode': TreeNode, 'GraphNode': GraphNode}
+        exec(compile(source, '<submission>', 'exec'), namespace)
+        if signature and signature.get('kind') == 'class':
+            entry = lambda names, arg_lists: _replay(namespace, names, arg_lists)
+        else:
+            entry = _find_entry(namespace)
+        duration_ms = float('inf')
+        durations_ms = []
+        memory_bytes = 0
+        # A benchmark still gets one timed call per repeat on top of the traced one
+        runs = repeat + 1 if benchmark else repeat
+        for run in range(runs):
+            # Every run gets freshly decoded arguments in case the submission mutates them
+            args = json.loads(args_json)
+            if signature:
+                args = [_build(arg, params[index] if index < len(params) else 'any') for index, arg in enumerate(args)]
+            # Only the first call is traced for its peak allocation, since tracing slows every allocation down
+            traced = run == 0
+            if traced:
+                tracemalloc.start()
+            started = time.perf_counter()
+            try:
+                result = entry(*args)
+            finally:
+                elapsed_ms = (time.perf_counter() - started) * 1000
+                if traced:
+                    memory_bytes = tracemalloc.get_traced_memory()[1]
+                    tracemalloc.stop()
+            if traced and runs > 1:
+                continue
+            duration_ms = min(duration_ms, elapsed_ms)
+            durations_ms.append(elapsed_ms)
+            if not benchmark and elapsed_ms > _REPEAT_CUTOFF_MS:
+                break
+        if signature:
+            result = _serialize(result, signature.get('returns', 'any'))
+        return json.dumps({
+            'value': result,
+            'duration_ms': duration_ms,
+            'durations_ms': durations_ms if benchmark else None,
+            'memory_bytes': memory_bytes,
+        }, default=_to_json)
+    finally:
+        builtins.__import__ = _real_import
+`;
+
+/**
+ * Load the Pyodide interpreter once per worker
+ */
+export function loadPythonRuntime(): Promise<PyodideInterface> {
+  if (!runtimePromise) {
+    runtimePromise = (async () => {
+      const { loadPyodide, version } = await import('pyodide');
+
+      // Node resolves the interpreter files from the package; browsers fetch them from the CDN.
+      // Pyodide finds its package from the call stack unless told, which fails in worker threads.
+      const isNode = typeof (globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node === 'string';
+      const packageUrl = isNode ? import.meta.resolve('pyodide') : '';
+      const pyodide = await loadPyodide(
+        isNode
+          ? packageUrl.startsWith('file:') ? { indexURL: decodeURIComponent(new URL('.', packageUrl).pathname) } : {}
+          : { indexURL: `https://cdn.jsdelivr.net/pyodide/v${version}/full/` }
+      );
+
+      await pyodide.runPythonAsync(HARNESS);
+
+      // Unregistered, the host modules cannot be imported again even by a submission that
+      // removes the import hooks; the harness then drops everything already imported
+      for (const name of JS_MODULES) {
+        pyodide.unregisterJsModule(name);
+      }
+      pyodide.runPython('_lock_down()');
+      return pyodide;
+    })();
+
+    // Allow a later retry if the download failed
+    runtimePromise.catch(() => {
+      runtimePromise = null;
+    });
+  }
+
+  return runtimePromise;
+}
+
+/**
+ * Run a Python submission's entry function with JSON-compatible arguments,
+ * building and flattening structures when the puzzle declares a signature.
+ * The reported duration is the fastest entry call, excluding conversions around it, and
+ * benchmarks report every call;
+ * memory is the peak Python allocation traced during the first call.
+ */
+export async function runPython(
+  source: string,
+  args: unknown[],
+  collector: LogCollector,
+  signature?: FunctionSignature,
+  repeat = 1,
+  benchmark = false
+): Promise<MeasuredValue> {
+  const pyodide = await loadPythonRuntime();
+  const run = pyodide.globals.get('byteduel_run');
+
+  // print() and tracebacks written to sys.stderr arrive here one line at a time
+  pyodide.setStdout({ batched: (line: string) => collector.write('stdout', line) });
+  pyodide.setStderr({ batched: (line: string) => collector.write('stderr', line) });
+
+  try {
+    const resultJson: string = run(source, JSON.stringify(args), JSON.stringify(signature ?? null), repeat, benchmark);
+    const { value, duration_ms: durationMs, durations_ms: durationsMs, memory_bytes: memoryBytes } = JSON.parse(resultJson);
+    return { value, durationMs, durationsMs: durationsMs ?? undefined, memoryBytes };
+  } catch (error) {
+    throw new Error(formatPythonError(error));
+  } finally {
+    run.destroy();
+  }
+}
+
+/**
+ * Trim harness frames from a Python traceback so players only see their own code
+ */
+function formatPythonError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const lines = message.trim().split('\n');
+  const firstUserFrame = lines.findIndex(line => line.includes('"<submission>"'));
+
+  if (firstUserFrame === -1) {
+    return lines[lines.length - 1];
+  }
+
+  return ['Traceback (most recent call last):', ...lines.slice(firstUserFrame)].join('\n');
+}
@@ -0,0 +1,60 @@
+/**
+ * Random - Seeded pseudo-random numbers for reproducible generated inputs
+ * The sandbox replaces Math.random with a constant, so puzzle generators are handed one of these instead
+ */
+
+export interface SeededRandom {
+  seed: number;
+  next(): number; // uniform in [0, 1)
+  int(min: number, max: number): number; // uniform integer in [min, max]
+  pick<T>(items: T[]): T;
+  shuffle<T>(items: T[]): T[]; // returns a shuffled copy
+  string(length: number, alphabet?: string): string;
+}
+
+/**
+ * mulberry32: a tiny 32-bit generator, plenty for test data and identical in every JavaScript runtime
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create a generator with helpers for the values puzzles usually need
+ */
+export function createRandom(seed: number): SeededRandom {
+  const next = mulberry32(seed);
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  return {
+    seed,
+    next,
+    int,
+    pick: <T>(items: T[]) => items[int(0, items.length - 1)],
+    shuffle: <T>(items: T[]) => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    },
+    string: (length: number, alphabet = 'abcdefghijklmnopqrstuvwxyz') =>
+      Array.from({ length }, () => alphabet[int(0, alphabet.length - 1)]).join(''),
+  };
+}
+
+/**
+ * A fresh 32-bit seed for runs that do not need to be reproduced exactly
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
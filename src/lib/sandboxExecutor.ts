@@ -0,0 +1,361 @@
+/**
+ * Sandbox Executor - Runs wrapped submissions inside the current JavaScript realm
+ * Used by the sandbox worker, and directly by the runner where Web Workers are unavailable
+ */
+import { loadPythonRuntime, runPython } from './pythonRuntime';
+import { loadSqlRuntime, runSql } from './sqlRuntime';
+import { REPEAT_CUTOFF_MS } from './complexity';
+import { createRandom } from './random';
+import { createLogCollector, formatLogArgs, type ConsoleLog, type LogCollector } from './consoleCapture';
+import { COVERAGE_FUNCTION, type CounterHits } from './coverage';
+import { guardPropertyKey, KEY_GUARD_FUNCTION } from './propertyGuard';
+import {
+  buildArgument,
+  serializeValue,
+  GraphNode,
+  ListNode,
+  TreeNode,
+  type FunctionSignature,
+} from './structures';
+
+export type RuntimeLanguage = 'javascript' | 'python' | 'sql';
+
+export interface MeasuredValue {
+  value: unknown;
+  durationMs: number;
+  durationsMs?: number[]; // every timed run, for benchmark requests
+  memoryBytes?: number; // undefined where the runtime exposes no memory counters
+}
+
+/**
+ * Raised when a submission uses more memory than the puzzle allows
+ */
+export class MemoryLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryLimitError';
+  }
+}
+
+export type SandboxRequest =
+  | { id: number; type: 'prepare'; language: RuntimeLanguage }
+  | {
+      id: number;
+      type: 'execute';
+      language: RuntimeLanguage;
+      code: string;
+      args: unknown[];
+      signature?: FunctionSignature;
+      repeat?: number; // call the submission up to this many times on fresh arguments, reporting the fastest
+      benchmark?: boolean; // make every repeated call, however slow, and report each one's duration
+      memoryLimitMb?: number; // checked against measured usage after every call
+      coverage?: boolean; // JavaScript instrumented by instrumentCoverage; hits are reported even when the call throws
+    };
+
+// durationMs and memoryBytes cover only the submission's own call, not argument building around it
+export type SandboxResponse =
+  | {
+      id: number;
+      ok: true;
+      value: unknown;
+      logs: ConsoleLog[];
+      durationMs: number;
+      durationsMs?: number[];
+      memoryBytes?: number;
+      counterHits?: CounterHits;
+    }
+  | { id: number; ok: false; error: string; logs: ConsoleLog[]; reason?: 'memory'; counterHits?: CounterHits };
+
+// V8 and Python report exhausted heaps and oversized allocations with these messages
+const MEMORY_ERROR_PATTERN = /allocation failed|Invalid string length|out of memory|MemoryError/i;
+
+/**
+ * Handle a single request from the sandbox host
+ */
+export async function executeSandboxRequest(request: SandboxRequest): Promise<SandboxResponse> {
+  // Every execution starts with an empty console
+  const collector = createLogCollector();
+  const counterHits: CounterHits | undefined = request.type === 'execute' && request.coverage ? {} : undefined;
+
+  try {
+    if (request.type === 'prepare') {
+      await prepareRuntime(request.language);
+      return { id: request.id, ok: true, value: null, logs: [], durationMs: 0 };
+    }
+
+    const { value, durationMs, durationsMs, memoryBytes } = await runRequest(request, collector, counterHits);
+
+    // Python reports its peak only once the call returns, so its limit is checked here
+    checkMemoryLimit(memoryBytes, request.memoryLimitMb);
+
+    return { id: request.id, ok: true, value, logs: collector.logs, durationMs, durationsMs, memoryBytes, counterHits };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = error instanceof MemoryLimitError || MEMORY_ERROR_PATTERN.test(message);
+
+    return {
+      id: request.id,
+      ok: false,
+      error: exhausted && !(error instanceof MemoryLimitError) ? `Memory limit exceeded: ${message}` : message,
+      logs: collector.logs,
+      counterHits,
+      ...(exhausted ? { reason: 'memory' as const } : {}),
+    };
+  }
+}
+
+/**
+ * Replace the constructor every kind of function inherits with one that throws, so no value a
+ * submission holds leads back to a code compiler, and through it to the worker's global scope.
+ * Only for the sandbox worker, since it affects everything in the realm that reaches a compiler
+ * through fn.constructor; the executor itself uses the global Function, which submissions cannot name.
+ */
+export function severCodeGeneration() {
+  const prototypes = [
+    Function.prototype,
+    Object.getPrototypeOf(async function () {}),
+    Object.getPrototypeOf(function* () {}),
+    Object.getPrototypeOf(async function* () {}),
+  ];
+
+  for (const prototype of prototypes) {
+    const name: string = prototype.constructor.name;
+    const severed = function () {
+      throw new Error(`${name} constructor is not allowed`);
+    };
+    // Code that tells functions apart by constructor name, such as Pyodide's, keeps working
+    Object.defineProperty(severed, 'name', { value: name });
+    Object.defineProperty(prototype, 'constructor', { value: severed, writable: false, enumerable: false, configurable: false });
+  }
+}
+
+/**
+ * Dispatch an execute request to the runtime for its language
+ */
+function runRequest(
+  request: Extract<SandboxRequest, { type: 'execute' }>,
+  collector: LogCollector,
+  counterHits?: CounterHits
+): Promise<MeasuredValue> {
+  const { code, args, signature, repeat, benchmark, memoryLimitMb } = request;
+
+  switch (request.language) {
+    case 'python':
+      return runPython(code, args, collector, signature, repeat, benchmark);
+    case 'sql':
+      // SQL puzzles pass the schema and the test's seed statements instead of arguments
+      return benchmark
+        ? benchmarkSql(code, String(args[0] ?? ''), String(args[1] ?? ''), repeat)
+        : runSql(code, String(args[0] ?? ''), String(args[1] ?? ''));
+    default:
+      return runJavaScript(code, args, collector, signature, repeat, benchmark, memoryLimitMb, counterHits);
+  }
+}
+
+/**
+ * Time a query several times. Each run needs a fresh database, so unlike code there is nothing to compile once.
+ */
+async function benchmarkSql(query: string, schema: string, seed: string, repeat = 1): Promise<MeasuredValue> {
+  let measured = await runSql(query, schema, seed);
+  const durationsMs = [measured.durationMs];
+
+  for (let run = 1; run < repeat; run++) {
+    measured = await runSql(query, schema, seed);
+    durationsMs.push(measured.durationMs);
+  }
+
+  return { ...measured, durationMs: Math.min(...durationsMs), durationsMs };
+}
+
+/**
+ * Heap currently in use by this realm, from whichever counter the runtime exposes.
+ * Node and Deno report exact figures; Chromium's performance.memory is coarse, and other browsers have none.
+ */
+function readHeapUsed(): number | undefined {
+  const runtime = globalThis as {
+    process?: { memoryUsage?: () => { heapUsed: number } };
+    Deno?: { memoryUsage?: () => { heapUsed: number } };
+  };
+  const memory = (performance as { memory?: { usedJSHeapSize: number } }).memory;
+
+  try {
+    return runtime.process?.memoryUsage?.().heapUsed
+      ?? runtime.Deno?.memoryUsage?.().heapUsed
+      ?? memory?.usedJSHeapSize;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fail the execution when measured usage is over the limit
+ */
+function checkMemoryLimit(memoryBytes: number | undefined, memoryLimitMb: number | undefined) {
+  if (memoryBytes === undefined || !memoryLimitMb) return;
+
+  const usedMb = memoryBytes / 1024 / 1024;
+  if (usedMb > memoryLimitMb) {
+    throw new MemoryLimitError(`Memory limit exceeded (${usedMb.toFixed(1)}MB used, limit ${memoryLimitMb}MB)`);
+  }
+}
+
+/**
+ * Load any interpreter the language needs before the first timed test
+ */
+async function prepareRuntime(language: RuntimeLanguage): Promise<void> {
+  if (language === 'python') {
+    await loadPythonRuntime();
+  } else if (language === 'sql') {
+    await loadSqlRuntime();
+  }
+}
+
+/**
+ * Execute a wrapped JavaScript submission against one set of arguments.
+ * Repeated runs reuse the compiled function, so later runs measure JIT-optimized code.
+ * Benchmark requests make every run and report all of their durations.
+ * Memory is the heap growth across each call: garbage collected mid-call is not counted,
+ * and garbage not yet collected is, so it approximates rather than equals the true peak.
+ */
+async function runJavaScript(
+  code: string,
+  args: unknown[],
+  collector: LogCollector,
+  signature?: FunctionSignature,
+  repeat = 1,
+  benchmark = false,
+  memoryLimitMb?: number,
+  counterHits?: CounterHits
+): Promise<MeasuredValue> {
+  const context = createSecureContext(collector);
+  if (counterHits) {
+    context[COVERAGE_FUNCTION] = (counter: number) => {
+      counterHits[counter] = (counterHits[counter] ?? 0) + 1;
+    };
+  }
+  // Strict-mode reserved names cannot be used as parameter names
+  const names = Object.keys(context).filter(name => name !== 'eval' && name !== 'arguments');
+  const values = names.map(name => context[name]);
+
+  // Shadow globals by passing the secure context as parameters. Strict mode keeps `this` from being
+  // the global object in plain function calls; the directive shares the first line so line numbers hold.
+  const func = new Function(...names, '__args', `'use strict'; ${code}`);
+  let result: unknown;
+  let durationMs = Infinity;
+  const durationsMs: number[] = [];
+  let memoryBytes: number | undefined;
+
+  for (let run = 0; run < repeat; run++) {
+    // Submissions may mutate their input, so every run gets its own copy.
+    // Structures are built inside the sandbox so the submission receives real node objects.
+    const runArgs = run === repeat - 1 ? args : structuredClone(args);
+    const callArgs = signature
+      ? runArgs.map((arg, index) => buildArgument(arg, signature.params[index]))
+      : runArgs;
+
+    const heapBefore = readHeapUsed();
+    const startTime = performance.now();
+    result = await func(...values, callArgs);
+    const elapsed = performance.now() - startTime;
+    const heapAfter = readHeapUsed();
+    durationMs = Math.min(durationMs, elapsed);
+    durationsMs.push(elapsed);
+
+    if (heapBefore !== undefined && heapAfter !== undefined) {
+      memoryBytes = Math.max(memoryBytes ?? 0, heapAfter - heapBefore);
+      checkMemoryLimit(memoryBytes, memoryLimitMb);
+    }
+
+    // Slow runs are already far above timer noise, and repeating them would eat the time limit
+    if (!benchmark && elapsed > REPEAT_CUTOFF_MS) break;
+  }
+
+  return {
+    value: signature ? serializeValue(result, signature.returns) : result,
+    durationMs,
+    durationsMs: benchmark ? durationsMs : undefined,
+    memoryBytes,
+  };
+}
+
+/**
+ * Create secure execution context with limited globals.
+ * Console output goes to the collector when one is given, and is discarded otherwise.
+ */
+export function createSecureContext(collector?: LogCollector): Record<string, unknown> {
+  // Capture output for debugging but don't expose real console
+  const write = (stream: 'stdout' | 'stderr') => (...args: unknown[]) => {
+    collector?.write(stream, formatLogArgs(args));
+  };
+
+  const safeConsole = {
+    log: write('stdout'),
+    info: write('stdout'),
+    debug: write('stdout'),
+    error: write('stderr'),
+    warn: write('stderr'),
+  };
+
+  // Math members are non-enumerable, so inherit them instead of spreading
+  const safeMath = Object.create(Math, {
+    random: { value: () => 0.5 }, // Deterministic for testing
+  });
+
+  // Safe array and object methods
+  const safeArray = Array;
+  const safeObject = Object;
+
+  return {
+    console: safeConsole,
+    Math: safeMath,
+    JSON,
+    Array: safeArray,
+    Object: safeObject,
+    String,
+    Number,
+    Boolean,
+    Date,
+    RegExp,
+    parseInt,
+    parseFloat,
+    isNaN,
+    isFinite,
+
+    // Node classes used by structure puzzles
+    ListNode,
+    TreeNode,
+    GraphNode,
+
+    // Seeded randomness for puzzle input generators, since Math.random is fixed
+    createRandom,
+
+    // Computed property keys are checked here; see guardComputedAccess
+    [KEY_GUARD_FUNCTION]: guardPropertyKey,
+
+    // Explicitly exclude dangerous globals
+    require: undefined,
+    process: undefined,
+    global: undefined,
+    window: undefined,
+    document: undefined,
+    fetch: undefined,
+    setTimeout: undefined,
+    setInterval: undefined,
+    eval: undefined,
+    Function: undefined,
+    globalThis: undefined,
+    self: undefined,
+    postMessage: undefined,
+    importScripts: undefined,
+    XMLHttpRequest: undefined,
+    WebSocket: undefined,
+
+    // Add some utility functions that are commonly needed
+    min: Math.min,
+    max: Math.max,
+    abs: Math.abs,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    round: Math.round,
+  };
+}
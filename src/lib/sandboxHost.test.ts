@@ -0,0 +1,42 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { SandboxHost, type SandboxOutcome } from './sandboxHost';
+
+// Interpreter loading dominates, so every test shares one worker and a generous limit
+const LOAD_TIMEOUT_MS = 60 * 1000;
+const CALL_TIMEOUT_MS = 10 * 1000;
+
+describe('SandboxHost with Python', () => {
+  const host = new SandboxHost();
+  afterAll(() => host.dispose());
+
+  const run = (code: string): Promise<SandboxOutcome> => host.execute('python', code, [], CALL_TIMEOUT_MS);
+
+  it('runs the entry function', async () => {
+    expect(await run('def solve():\n    return 41 + 1\n')).toMatchObject({ status: 'ok', value: 42 });
+  }, LOAD_TIMEOUT_MS);
+
+  it.each(['gc', 'js', 'pyodide', 'pyodide_js', '_pyodide._importhook', '_pyodide_core'])(
+    'refuses to import %s',
+    async name => {
+      const outcome = await run(`import importlib\ndef solve():\n    return str(importlib.import_module('${name}'))\n`);
+      expect(outcome).toMatchObject({ status: 'error', error: expect.stringContaining('is not allowed') });
+    },
+    LOAD_TIMEOUT_MS
+  );
+
+  it('leaves no way back to the Pyodide API through the JavaScript import hooks', async () => {
+    // The harness's own globals reach the unguarded import, so a submission can still load gc
+    const code = [
+      'import sys',
+      'def solve():',
+      '    harness = ListNode.__init__.__globals__',
+      "    sys.meta_path[:] = [finder for finder in sys.meta_path if finder is not harness['_BlockedModuleFinder']]",
+      "    gc = harness['_real_import']('gc')",
+      "    hooks = [hook for hook in gc.get_objects() if type(hook).__name__ in ('JsFinder', 'JsLoader')]",
+      "    return [getattr(hook, 'jsproxy', None) for hook in hooks if getattr(hook, 'jsproxy', None) is not None]" +
+        " + [list(hook.jsproxies) for hook in hooks if getattr(hook, 'jsproxies', None)]",
+    ].join('\n');
+
+    expect(await run(code)).toMatchObject({ status: 'ok', value: [] });
+  }, LOAD_TIMEOUT_MS);
+});
@@ -0,0 +1,292 @@
+/**
+ * Sandbox Host - Owns the worker that executes submissions and enforces hard timeouts
+ * One host serves a single sandbox run; the worker is reused until it times out or crashes
+ */
+import {
+  executeSandboxRequest,
+  type RuntimeLanguage,
+  type SandboxRequest,
+  type SandboxResponse,
+} from './sandboxExecutor';
+import { type ConsoleLog } from './consoleCapture';
+import { type CounterHits } from './coverage';
+import { type FunctionSignature } from './structures';
+
+// Output and coverage hits from before a timeout are lost along with the terminated worker
+export type SandboxOutcome =
+  | {
+      status: 'ok';
+      value: unknown;
+      logs: ConsoleLog[];
+      durationMs: number;
+      durationsMs?: number[];
+      memoryBytes?: number;
+      counterHits?: CounterHits;
+    }
+  | { status: 'error'; error: string; logs: ConsoleLog[]; counterHits?: CounterHits }
+  | { status: 'memory'; error: string; logs: ConsoleLog[]; counterHits?: CounterHits }
+  | { status: 'timeout' };
+
+export interface ExecuteOptions {
+  signature?: FunctionSignature;
+  repeat?: number; // run the call several times and report the fastest
+  benchmark?: boolean; // make every repeated call and report each duration
+  memoryLimitMb?: number;
+  coverage?: boolean; // count statement hits in code prepared by instrumentCoverage
+}
+
+interface PendingCall {
+  resolve: (outcome: SandboxOutcome) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// A Web Worker, or a worker thread in Node
+interface SandboxThread {
+  postMessage(request: SandboxRequest): void;
+  terminate(): void;
+}
+
+// Interpreters such as Pyodide are downloaded on first use, so loading gets its own budget
+const RUNTIME_LOAD_TIMEOUT_MS = 60 * 1000;
+
+// Browsers report a worker that ran out of heap with an error event like this, and Node a capped thread
+const WORKER_MEMORY_ERROR_PATTERN = /out of memory|allocation failed/i;
+
+// Room on top of the memory limit for what the worker loads itself, such as the TypeScript compiler
+const RUNTIME_HEAP_MB = 192;
+
+// Calls without a memory limit, such as template generators, get the largest limit a duel may set
+const UNLIMITED_MEMORY_MB = 2048;
+
+// Packages whose files Pyodide and sql.js read at runtime rather than import
+const RUNTIME_PACKAGES = ['pyodide', 'sql.js'];
+
+// Not a literal, so Vite leaves the Node-only module and worker_threads out of the browser bundle
+const NODE_THREAD_MODULE = './sandboxNodeThread';
+
+const isNode = typeof (globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node === 'string';
+
+export class SandboxHost {
+  private worker: SandboxThread | null = null;
+  private threadHeapLimitMb: number | null = null; // the cap a Node thread was started with
+  private memoryLimitMb?: number;
+  private pending = new Map<number, PendingCall>();
+  private preparedLanguages = new Set<RuntimeLanguage>();
+  private nextId = 1;
+
+  /**
+   * Whether submissions run in a worker that can be terminated mid-execution
+   */
+  static get isolated(): boolean {
+    return typeof Worker !== 'undefined' || isNode;
+  }
+
+  /**
+   * Execute code with the given arguments, terminating it after timeoutMs.
+   * Runtime loading happens beforehand and does not count against the time limit.
+   * Memory limits are checked against measured heap growth after each call. In Node the worker
+   * thread also gets a hard heap cap of the limit plus the runtimes' own needs, and is terminated
+   * when it reaches it. Web Workers cannot be capped, so in browsers and Deno a call is only
+   * checked once it returns. Browsers are best-effort: only Chromium exposes heap usage
+   * (performance.memory), and elsewhere just the runtime's own out-of-memory failures stop a submission.
+   */
+  async execute(
+    language: RuntimeLanguage,
+    code: string,
+    args: unknown[],
+    timeoutMs: number,
+    options: ExecuteOptions = {}
+  ): Promise<SandboxOutcome> {
+    const { signature, repeat, benchmark, memoryLimitMb, coverage } = options;
+
+    // A Node thread is capped when it starts, so a different limit needs a fresh one
+    this.memoryLimitMb = memoryLimitMb;
+    if (this.threadHeapLimitMb !== null && this.threadHeapLimitMb !== threadHeapLimit(memoryLimitMb)) {
+      this.resetWorker('Memory limit changed');
+    }
+
+    if (!this.preparedLanguages.has(language)) {
+      const prepared = await this.send({ id: this.nextId++, type: 'prepare', language }, RUNTIME_LOAD_TIMEOUT_MS);
+      if (prepared.status !== 'ok') {
+        return prepared.status === 'timeout'
+          ? { status: 'error', error: `Failed to load the ${language} runtime in time`, logs: [] }
+          : { status: 'error', error: prepared.error, logs: prepared.logs };
+      }
+      this.preparedLanguages.add(language);
+    }
+
+    return this.send(
+      { id: this.nextId++, type: 'execute', language, code, args, signature, repeat, benchmark, memoryLimitMb, coverage },
+      timeoutMs
+    );
+  }
+
+  /**
+   * Terminate the worker and fail any in-flight calls
+   */
+  dispose() {
+    this.resetWorker('Sandbox disposed');
+  }
+
+  // Private methods
+
+  private async send(request: SandboxRequest, timeoutMs: number): Promise<SandboxOutcome> {
+    if (!SandboxHost.isolated) {
+      return this.executeInProcess(request, timeoutMs);
+    }
+
+    const worker = await this.getWorker();
+
+    return new Promise<SandboxOutcome>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(request.id);
+        // A busy worker never yields, so the only way to stop it is to kill it
+        this.resetWorker('Worker terminated after timeout');
+        resolve({ status: 'timeout' });
+      }, timeoutMs);
+
+      this.pending.set(request.id, { resolve, timer });
+      worker.postMessage(request);
+    });
+  }
+
+  private async getWorker(): Promise<SandboxThread> {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    if (typeof Worker === 'undefined') {
+      return this.startNodeThread();
+    }
+
+    // Deno starts workers with the permissions of their parent, which in the duel-submit function include
+    // Deno.env and its service role key. Sandbox workers may only read the runtime packages, which Pyodide
+    // and sql.js load their WebAssembly, standard library and lock file from, so a submission that reaches
+    // Pyodide's file system API cannot mount the host's. Browsers ignore the option. Vite cannot read options
+    // that are computed, but still bundles the worker in the ES module format set in vite.config.ts.
+    const options = {
+      type: 'module',
+      deno: { permissions: { read: runtimePackageDirs(), env: false, net: false, write: false, run: false, ffi: false, sys: false } },
+    } as WorkerOptions;
+    const worker = new Worker(new URL('./sandboxWorker.ts', import.meta.url), /* @vite-ignore */ options);
+
+    worker.onmessage = (event: MessageEvent<SandboxResponse>) => this.resolveCall(event.data);
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      const message = event.message || 'Sandbox worker crashed';
+      // An exhausted heap kills the worker rather than throwing inside the submission
+      this.resetWorker(message, WORKER_MEMORY_ERROR_PATTERN.test(message) ? 'memory' : 'error');
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private async startNodeThread(): Promise<SandboxThread> {
+    const { startSandboxThread }: typeof import('./sandboxNodeThread') = await import(/* @vite-ignore */ NODE_THREAD_MODULE);
+    if (this.worker) {
+      return this.worker;
+    }
+
+    const heapLimitMb = threadHeapLimit(this.memoryLimitMb);
+    const thread = startSandboxThread(
+      heapLimitMb,
+      response => this.resolveCall(response),
+      message => {
+        // Terminating a thread reports its exit as well, possibly after a replacement started
+        if (this.worker !== thread) return;
+        this.resetWorker(message, WORKER_MEMORY_ERROR_PATTERN.test(message) ? 'memory' : 'error');
+      }
+    );
+
+    this.worker = thread;
+    this.threadHeapLimitMb = heapLimitMb;
+    return thread;
+  }
+
+  private resolveCall(response: SandboxResponse) {
+    const call = this.pending.get(response.id);
+    if (!call) return;
+
+    clearTimeout(call.timer);
+    this.pending.delete(response.id);
+    call.resolve(toOutcome(response));
+  }
+
+  private resetWorker(reason: string, status: 'error' | 'memory' = 'error') {
+    this.worker?.terminate();
+    this.worker = null;
+    this.threadHeapLimitMb = null;
+    // A fresh worker has to load its interpreters again
+    this.preparedLanguages.clear();
+
+    for (const [id, call] of this.pending) {
+      clearTimeout(call.timer);
+      call.resolve({
+        status,
+        error: status === 'memory' ? `Memory limit exceeded: ${reason}` : reason,
+        logs: [],
+      });
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Fallback for runtimes with neither Web Workers nor worker threads.
+   * Runaway code cannot be interrupted here, so timeouts are only detected afterwards.
+   */
+  private async executeInProcess(request: SandboxRequest, timeoutMs: number): Promise<SandboxOutcome> {
+    const startTime = performance.now();
+    const response = await executeSandboxRequest(request);
+
+    if (performance.now() - startTime > timeoutMs) {
+      return { status: 'timeout' };
+    }
+
+    return toOutcome(response);
+  }
+}
+
+/**
+ * Directories of the packages the interpreters load their files from, where they resolve to files on disk
+ */
+function runtimePackageDirs(): string[] {
+  if (!isNode) return [];
+
+  return RUNTIME_PACKAGES.flatMap(name => {
+    const url = import.meta.resolve(name);
+    return url.startsWith('file:') ? [decodeURIComponent(new URL('.', url).pathname)] : [];
+  });
+}
+
+/**
+ * Heap cap for a Node thread running calls with the given memory limit
+ */
+function threadHeapLimit(memoryLimitMb: number | undefined): number {
+  return (memoryLimitMb ?? UNLIMITED_MEMORY_MB) + RUNTIME_HEAP_MB;
+}
+
+/**
+ * Map a worker response onto the outcome reported to the runner
+ */
+function toOutcome(response: SandboxResponse): SandboxOutcome {
+  if (response.ok) {
+    return {
+      status: 'ok',
+      value: response.value,
+      logs: response.logs,
+      durationMs: response.durationMs,
+      durationsMs: response.durationsMs,
+      memoryBytes: response.memoryBytes,
+      counterHits: response.counterHits,
+    };
+  }
+
+  return {
+    status: response.reason === 'memory' ? 'memory' : 'error',
+    error: response.error,
+    logs: response.logs,
+    counterHits: response.counterHits,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Sandbox Node Thread - Starts sandbox workers for Node scripts, which have no Web Workers
+ * Kept apart from sandboxHost.ts because it needs worker_threads, which the browser bundle cannot import.
+ * Unlike Web Workers, these threads get a hard heap cap.
+ */
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { type SandboxResponse } from './sandboxExecutor';
+
+/**
+ * Start a worker thread whose V8 heap cannot grow past heapLimitMb. onCrash receives
+ * the thread's error, such as reaching the cap, or a note that it exited on its own.
+ */
+export function startSandboxThread(
+  heapLimitMb: number,
+  onResponse: (response: SandboxResponse) => void,
+  onCrash: (message: string) => void
+): Worker {
+  const extension = extname(fileURLToPath(import.meta.url));
+  const entry = new URL(`./sandboxNodeWorker${extension}`, import.meta.url).href;
+
+  // Worker threads do not inherit the tsx loader that runs the scripts, so TypeScript entries register it first
+  const register = extension === '.ts' ? `(await import('tsx/esm/api')).register();` : '';
+  const worker = new Worker(`(async () => { ${register} await import(${JSON.stringify(entry)}); })();`, {
+    eval: true,
+    resourceLimits: { maxOldGenerationSizeMb: heapLimitMb },
+  });
+
+  worker.on('message', onResponse);
+  worker.on('error', error => onCrash(error.message));
+  worker.on('exit', () => onCrash('Sandbox worker exited'));
+
+  // Like a Web Worker, an idle thread does not keep the script running
+  worker.unref();
+  return worker;
+}
@@ -0,0 +1,24 @@
+/**
+ * Sandbox Node Worker - worker_threads entry point, the Node counterpart of sandboxWorker.ts
+ * The host terminates this thread when a test exceeds its time limit; Node ends it when its heap cap is reached
+ */
+import { parentPort } from 'worker_threads';
+import { executeSandboxRequest, severCodeGeneration, type SandboxRequest } from './sandboxExecutor';
+
+severCodeGeneration();
+
+parentPort?.on('message', async (request: SandboxRequest) => {
+  const response = await executeSandboxRequest(request);
+
+  try {
+    parentPort?.postMessage(response);
+  } catch {
+    // Return values such as functions or symbols cannot be cloned across threads
+    parentPort?.postMessage({
+      id: request.id,
+      ok: false,
+      error: 'Return value could not be serialized',
+      logs: response.logs,
+    });
+  }
+});
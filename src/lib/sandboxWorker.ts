@@ -0,0 +1,23 @@
+/**
+ * Sandbox Worker - Dedicated worker entry point for running submissions off the main thread
+ * The host terminates this worker when a test exceeds its time limit
+ */
+import { executeSandboxRequest, severCodeGeneration, type SandboxRequest } from './sandboxExecutor';
+
+severCodeGeneration();
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const response = await executeSandboxRequest(event.data);
+
+  try {
+    self.postMessage(response);
+  } catch {
+    // Return values such as functions or symbols cannot be cloned across threads
+    self.postMessage({
+      id: event.data.id,
+      ok: false,
+      error: 'Return value could not be serialized',
+      logs: response.logs,
+    });
+  }
+};
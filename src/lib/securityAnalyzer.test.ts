@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSecurity } from './securityAnalyzer';
+
+const messages = async (code: string) => (await analyzeSecurity(code, 'javascript')).map(finding => finding.message);
+
+describe('analyzeSecurity', () => {
+  it.each([
+    'function f() { return "constructor"; }',
+    'function f() { const s = "__proto__"; return s.length; }',
+    'function f(words) { return words.includes(`constr${""}uctor`); }',
+    'function f() { return { name: "prototype" }; }',
+  ])('accepts escape property names used as plain strings: %s', async code => {
+    expect(await messages(code)).toEqual([]);
+  });
+
+  it.each([
+    ['function f(obj) { return obj["constructor"]; }', 'constructor'],
+    ['function f(obj) { return obj["constr" + "uctor"]; }', 'constructor'],
+    ['function f(obj) { return obj?.[`__proto__`]; }', '__proto__'],
+    ['function f(fn) { const { ["constr" + "uctor"]: F } = fn; return F; }', 'constructor'],
+    ['function f(fn) { const { "constructor": F } = fn; return F; }', 'constructor'],
+    ['function f(fn) { return fn.constructor; }', 'constructor'],
+  ])('rejects escape property names used as keys: %s', async (code, name) => {
+    expect(await messages(code)).toContain(`access to '${name}' is not allowed`);
+  });
+});
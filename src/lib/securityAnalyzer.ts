@@ -0,0 +1,486 @@
+/**
+ * Security Analyzer - AST-based detection of sandbox escapes in JavaScript and TypeScript submissions
+ * Identifiers are resolved against the submission's own scopes, so locals that shadow globals are allowed.
+ * JavaScript is parsed with acorn; TypeScript is analyzed as the JavaScript it transpiles to, which is
+ * what actually runs, and findings are mapped back to the submission through the source map.
+ */
+import { getLineInfo, parse, type AnyNode, type Node, type Pattern, type Program } from 'acorn';
+import { ESCAPE_PROPERTIES, KEY_GUARD_FUNCTION } from './propertyGuard';
+import { createSourceMapper, transpileTypeScript, type TranspileDiagnostic } from './typescriptCompiler';
+
+export type SecurityFinding = TranspileDiagnostic;
+
+// Host globals a submission must never reach, with the message reported for each
+const FORBIDDEN_GLOBALS: Record<string, string> = {
+  require: 'require() is not allowed',
+  eval: 'eval() is not allowed',
+  Function: 'Function constructor is not allowed',
+  setTimeout: 'setTimeout() is not allowed',
+  setInterval: 'setInterval() is not allowed',
+  setImmediate: 'setImmediate() is not allowed',
+  process: 'process object access is not allowed',
+  global: 'global object access is not allowed',
+  globalThis: 'globalThis access is not allowed',
+  self: 'self object access is not allowed',
+  window: 'window object access is not allowed',
+  document: 'document object access is not allowed',
+  fetch: 'fetch() is not allowed',
+  XMLHttpRequest: 'XMLHttpRequest is not allowed',
+  WebSocket: 'WebSocket is not allowed',
+  EventSource: 'EventSource is not allowed',
+  Worker: 'Worker is not allowed',
+  SharedWorker: 'SharedWorker is not allowed',
+  importScripts: 'importScripts() is not allowed',
+  postMessage: 'postMessage() is not allowed',
+  close: 'close() is not allowed',
+  caches: 'caches access is not allowed',
+  localStorage: 'localStorage access is not allowed',
+  sessionStorage: 'sessionStorage access is not allowed',
+  indexedDB: 'indexedDB access is not allowed',
+  navigator: 'navigator object access is not allowed',
+  location: 'location object access is not allowed',
+  history: 'history object access is not allowed',
+  alert: 'alert() is not allowed',
+  confirm: 'confirm() is not allowed',
+  prompt: 'prompt() is not allowed',
+  onmessage: 'onmessage is not allowed',
+  addEventListener: 'addEventListener() is not allowed',
+  Deno: 'Deno object access is not allowed',
+  EdgeRuntime: 'EdgeRuntime object access is not allowed',
+};
+
+// Position bookkeeping acorn adds to every node, which the walker skips
+const NON_CHILD_KEYS = new Set(['type', 'start', 'end', 'loc', 'range']);
+
+type Scope = Set<string>;
+
+/**
+ * Parse a submission and report every construct that could escape the sandbox
+ */
+export async function analyzeSecurity(
+  code: string,
+  language: 'javascript' | 'typescript'
+): Promise<SecurityFinding[]> {
+  if (language === 'javascript') {
+    return analyzeJavaScript(code);
+  }
+
+  const { output, sourceMap } = await transpileTypeScript(code, { sourceMap: true });
+  const toSource = createSourceMapper(sourceMap!);
+  return analyzeJavaScript(output).map(finding => ({ ...finding, ...toSource(finding.line, finding.column) }));
+}
+
+function analyzeJavaScript(code: string): SecurityFinding[] {
+  let program: Program;
+  try {
+    program = parseSubmission(code);
+  } catch (error) {
+    // Syntax errors are reported by validation on their own; there is nothing to analyze
+    const location = (error as { loc?: { line: number; column: number } }).loc;
+    return [{ line: location?.line ?? 1, column: (location?.column ?? 0) + 1, message: 'Code could not be parsed for security analysis' }];
+  }
+
+  const findings: SecurityFinding[] = [];
+  const scopes: Scope[] = [];
+
+  const report = (node: Node, message: string) => {
+    findings.push({ line: node.loc!.start.line, column: node.loc!.start.column + 1, message });
+  };
+
+  // Declaring the guard's name would swap the sandbox's key check for the submission's own
+  for (const match of code.matchAll(new RegExp(`\\b${KEY_GUARD_FUNCTION}\\b`, 'g'))) {
+    const position = getLineInfo(code, match.index!);
+    findings.push({ line: position.line, column: position.column + 1, message: `'${KEY_GUARD_FUNCTION}' is reserved by the sandbox` });
+  }
+
+  const isDeclaredLocally = (name: string) => scopes.some(scope => scope.has(name));
+
+  const checkReference = (name: string, node: Node) => {
+    const message = FORBIDDEN_GLOBALS[name];
+    if (message && !isDeclaredLocally(name)) {
+      report(node, message);
+    }
+  };
+
+  const visitChildren = (node: AnyNode) => childNodes(node).forEach(visit);
+
+  // Escape property names smuggled in as strings, e.g. obj['constr' + 'uctor'] or const { ['__pro' + 'to__']: p } = obj.
+  // Strings anywhere else, such as return 'constructor', only become keys at runtime, where the key guard checks them.
+  const visitKey = (key: AnyNode) => {
+    const folded = foldString(key);
+    if (folded === null) {
+      visit(key);
+    } else if (ESCAPE_PROPERTIES.includes(folded)) {
+      report(key, `access to '${folded}' is not allowed`);
+    }
+  };
+
+  // Declared names are not references; default values and computed keys inside patterns are
+  const visitPattern = (pattern: Pattern) => {
+    switch (pattern.type) {
+      case 'Identifier':
+        return;
+      case 'AssignmentPattern':
+        visitPattern(pattern.left);
+        visit(pattern.right);
+        return;
+      case 'RestElement':
+        visitPattern(pattern.argument);
+        return;
+      case 'ArrayPattern':
+        pattern.elements.forEach(element => element && visitPattern(element));
+        return;
+      case 'ObjectPattern':
+        for (const property of pattern.properties) {
+          if (property.type === 'RestElement') {
+            visitPattern(property.argument);
+          } else {
+            // const { constructor: F } = fn reads the property just like fn.constructor
+            if (property.computed || property.key.type !== 'Identifier') visitKey(property.key);
+            else if (ESCAPE_PROPERTIES.includes(property.key.name)) report(property.key, `access to '${property.key.name}' is not allowed`);
+            visitPattern(property.value);
+          }
+        }
+        return;
+      default:
+        // Assignment targets such as obj.prop are ordinary expressions
+        visit(pattern);
+    }
+  };
+
+  const visit = (node: AnyNode): void => {
+    switch (node.type) {
+      case 'ImportDeclaration':
+      case 'ExportNamedDeclaration':
+      case 'ExportDefaultDeclaration':
+      case 'ExportAllDeclaration':
+        report(node, 'import statements are not allowed');
+        return;
+      case 'ImportExpression':
+        report(node, 'dynamic import() is not allowed');
+        break;
+      case 'MetaProperty':
+        if (node.meta.name === 'import') report(node, 'import.meta is not allowed');
+        return;
+      case 'Identifier':
+        checkReference(node.name, node);
+        return;
+    }
+
+    // Constant strings hold no references. Parents are visited first, so the whole expression is folded before its parts.
+    if (foldString(node) !== null) {
+      return;
+    }
+
+    switch (node.type) {
+      case 'MemberExpression': {
+        if (!node.computed && node.property.type === 'Identifier') {
+          if (ESCAPE_PROPERTIES.includes(node.property.name)) {
+            report(node.property, `access to '${node.property.name}' is not allowed`);
+          }
+          visit(node.object);
+          return;
+        }
+        const object = node.object;
+        if (
+          node.computed &&
+          foldString(node.property) === null &&
+          !isNumericLiteral(node.property) &&
+          object.type === 'Identifier' &&
+          !isDeclaredLocally(object.name) &&
+          !FORBIDDEN_GLOBALS[object.name]
+        ) {
+          // e.g. Object[name]; forbidden globals are already reported on their own
+          report(node, `computed access to global '${object.name}' is not allowed`);
+        }
+        visit(node.object);
+        if (node.computed) visitKey(node.property);
+        else visit(node.property);
+        return;
+      }
+      case 'Property':
+      case 'PropertyDefinition':
+      case 'MethodDefinition':
+        // Member names are not references
+        if (node.computed) visit(node.key);
+        if (node.value) visit(node.value);
+        return;
+      case 'LabeledStatement':
+        visit(node.body);
+        return;
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        return;
+      case 'VariableDeclarator':
+        visitPattern(node.id);
+        if (node.init) visit(node.init);
+        return;
+      case 'AssignmentExpression':
+        visitPattern(node.left);
+        visit(node.right);
+        return;
+      case 'ForInStatement':
+      case 'ForOfStatement':
+        withScope(scopes, collectScopeDeclarations(node), () => {
+          if (node.left.type === 'VariableDeclaration') visit(node.left);
+          else visitPattern(node.left);
+          visit(node.right);
+          visit(node.body);
+        });
+        return;
+      case 'CatchClause':
+        withScope(scopes, collectScopeDeclarations(node), () => {
+          if (node.param) visitPattern(node.param);
+          visit(node.body);
+        });
+        return;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        withScope(scopes, collectScopeDeclarations(node), () => {
+          node.params.forEach(visitPattern);
+          visit(node.body);
+        });
+        return;
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        withScope(scopes, collectScopeDeclarations(node), () => {
+          if (node.superClass) visit(node.superClass);
+          visit(node.body);
+        });
+        return;
+    }
+
+    const scope = collectScopeDeclarations(node);
+    if (scope) {
+      withScope(scopes, scope, () => visitChildren(node));
+    } else {
+      visitChildren(node);
+    }
+  };
+
+  visit(program);
+  return findings;
+}
+
+/**
+ * Route every computed property key that is not a constant through the sandbox's key guard,
+ * e.g. obj[key] becomes obj[__guardKey(key)]. Text is only inserted within lines, so line numbers in
+ * errors and coverage stay the same. Code that does not parse is returned as is, since validation rejects it.
+ */
+export function guardComputedAccess(code: string): string {
+  let program: Program;
+  try {
+    program = parseSubmission(code);
+  } catch {
+    return code;
+  }
+
+  const edits: Array<{ position: number; text: string }> = [];
+  const guard = (key: AnyNode) => {
+    if (foldString(key) !== null || isNumericLiteral(key)) return;
+    // obj[a, b] has to stay one argument
+    const [open, close] = key.type === 'SequenceExpression' ? ['((', '))'] : ['(', ')'];
+    edits.push({ position: key.start, text: KEY_GUARD_FUNCTION + open }, { position: key.end, text: close });
+  };
+
+  const walk = (node: AnyNode) => {
+    if (node.type === 'MemberExpression' && node.computed) {
+      guard(node.property);
+    }
+    if (node.type === 'ObjectPattern') {
+      node.properties.forEach(property => property.type === 'Property' && property.computed && guard(property.key));
+    }
+    childNodes(node).forEach(walk);
+  };
+  walk(program);
+
+  return edits
+    .sort((a, b) => b.position - a.position)
+    .reduce((guarded, edit) => guarded.slice(0, edit.position) + edit.text + guarded.slice(edit.position), code);
+}
+
+/**
+ * Submissions run as function bodies; import and export only parse as a module, so they get a second try to be reported
+ */
+function parseSubmission(code: string): Program {
+  const parseAs = (sourceType: 'script' | 'module') =>
+    parse(code, { ecmaVersion: 'latest', sourceType, locations: true, allowReturnOutsideFunction: true });
+
+  try {
+    return parseAs('script');
+  } catch (error) {
+    try {
+      return parseAs('module');
+    } catch {
+      throw error;
+    }
+  }
+}
+
+function withScope(scopes: Scope[], scope: Scope | null, body: () => void) {
+  scopes.push(scope ?? new Set());
+  body();
+  scopes.pop();
+}
+
+function childNodes(node: AnyNode): AnyNode[] {
+  return Object.entries(node).flatMap(([key, value]) => {
+    if (NON_CHILD_KEYS.has(key)) return [];
+    return (Array.isArray(value) ? value : [value]).filter(isNode);
+  });
+}
+
+function isNode(value: unknown): value is AnyNode {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+function isNumericLiteral(node: AnyNode): boolean {
+  return node.type === 'Literal' && typeof node.value === 'number';
+}
+
+/**
+ * Value of a string literal, a template literal or a concatenation of them, or null if it is not constant.
+ * Numbers only count inside template literals, where they become part of a string.
+ */
+function foldString(node: AnyNode): string | null {
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+  if (node.type === 'TemplateLiteral') {
+    let text = node.quasis[0].value.cooked ?? null;
+    for (let index = 0; index < node.expressions.length && text !== null; index++) {
+      const expression = node.expressions[index];
+      const value = expression.type === 'Literal' && typeof expression.value === 'number'
+        ? String(expression.value)
+        : foldString(expression);
+      const quasi = node.quasis[index + 1].value.cooked;
+      text = value === null || quasi == null ? null : text + value + quasi;
+    }
+    return text;
+  }
+  if (node.type === 'BinaryExpression' && node.operator === '+' && node.left.type !== 'PrivateIdentifier') {
+    const left = foldString(node.left);
+    const right = left === null ? null : foldString(node.right);
+    return left === null || right === null ? null : left + right;
+  }
+  return null;
+}
+
+/**
+ * Names declared by a scope-introducing node, or null if the node does not introduce a scope.
+ * var and function declarations hoist to the nearest function; let, const and class stay in their block.
+ */
+function collectScopeDeclarations(node: AnyNode): Scope | null {
+  const names: Scope = new Set();
+
+  switch (node.type) {
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+    case 'ArrowFunctionExpression':
+      node.params.forEach(param => addBindingNames(param, names));
+      // A named function expression can refer to itself
+      if (node.type === 'FunctionExpression' && node.id) {
+        names.add(node.id.name);
+      }
+      if (node.body.type === 'BlockStatement') {
+        collectHoisted(node.body, names);
+        collectLexical(node.body.body, names);
+      }
+      return names;
+    case 'Program':
+      collectHoisted(node, names);
+      collectLexical(node.body, names);
+      return names;
+    case 'BlockStatement':
+    case 'StaticBlock':
+      collectLexical(node.body, names);
+      return names;
+    case 'SwitchStatement':
+      node.cases.forEach(switchCase => collectLexical(switchCase.consequent, names));
+      return names;
+    case 'ForStatement':
+    case 'ForInStatement':
+    case 'ForOfStatement': {
+      const declarations = node.type === 'ForStatement' ? node.init : node.left;
+      if (declarations?.type !== 'VariableDeclaration') return null;
+      declarations.declarations.forEach(declaration => addBindingNames(declaration.id, names));
+      return names;
+    }
+    case 'CatchClause':
+      if (!node.param) return null;
+      addBindingNames(node.param, names);
+      return names;
+    case 'ClassDeclaration':
+    case 'ClassExpression':
+      if (!node.id) return null;
+      names.add(node.id.name);
+      return names;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Block-scoped declarations made directly in a list of statements
+ */
+function collectLexical(statements: AnyNode[], names: Scope) {
+  for (const statement of statements) {
+    if (statement.type === 'VariableDeclaration') {
+      statement.declarations.forEach(declaration => addBindingNames(declaration.id, names));
+    } else if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+      names.add(statement.id.name);
+    }
+  }
+}
+
+/**
+ * var and function declarations anywhere in a function body, excluding nested functions
+ */
+function collectHoisted(root: AnyNode, names: Scope) {
+  const walk = (node: AnyNode) => {
+    switch (node.type) {
+      case 'FunctionDeclaration':
+        if (node.id) names.add(node.id.name);
+        return;
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        return;
+      case 'VariableDeclaration':
+        if (node.kind === 'var') {
+          node.declarations.forEach(declaration => addBindingNames(declaration.id, names));
+        }
+        break;
+    }
+
+    childNodes(node).forEach(walk);
+  };
+
+  if (root.type === 'Program' || root.type === 'BlockStatement') {
+    root.body.forEach(walk);
+  }
+}
+
+function addBindingNames(pattern: Pattern, names: Scope) {
+  switch (pattern.type) {
+    case 'Identifier':
+      names.add(pattern.name);
+      return;
+    case 'AssignmentPattern':
+      addBindingNames(pattern.left, names);
+      return;
+    case 'RestElement':
+      addBindingNames(pattern.argument, names);
+      return;
+    case 'ArrayPattern':
+      pattern.elements.forEach(element => element && addBindingNames(element, names));
+      return;
+    case 'ObjectPattern':
+      pattern.properties.forEach(property =>
+        addBindingNames(property.type === 'RestElement' ? property.argument : property.value, names)
+      );
+      return;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Server Puzzle Bank - Complete puzzle packages, hidden tests and reference solutions included, for edge functions
+ * The app only bundles puzzle.json and prompt.md. npm run puzzles:publish copies every puzzle directory,
+ * hidden.json included, into puzzle_packages, which only the service role can read; puzzle-generate
+ * stores generated puzzles there as well. Duels only record a puzzle's id, version and seed.
+ */
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { parsePuzzleFiles, type BankPuzzle, type PuzzleFiles } from './puzzleBank';
+import { type GeneratedPuzzle } from './puzzleGenerator';
+import { instantiatePuzzle } from './puzzleTemplates';
+
+export type PuzzlePackageSource = 'bank' | 'generated';
+
+export interface PuzzlePackageRow {
+  id: string;
+  version: number;
+  puzzle_json: string;
+  hidden_json: string | null;
+  prompt_markdown: string;
+  source: PuzzlePackageSource;
+  published_at?: string;
+}
+
+/**
+ * Store a puzzle's files under its id and version, replacing what was stored there before
+ */
+export async function storeServerPuzzle(
+  client: SupabaseClient,
+  puzzle: Pick<BankPuzzle, 'id' | 'version'>,
+  files: PuzzleFiles,
+  source: PuzzlePackageSource
+): Promise<void> {
+  if (files.puzzleJson === undefined || files.promptMarkdown === undefined) {
+    throw new Error(`Puzzle "${puzzle.id}" is missing puzzle.json or prompt.md`);
+  }
+
+  const row: PuzzlePackageRow = {
+    id: puzzle.id,
+    version: puzzle.version,
+    puzzle_json: files.puzzleJson,
+    hidden_json: files.hiddenJson ?? null,
+    prompt_markdown: files.promptMarkdown,
+    source,
+    published_at: new Date().toISOString(),
+  };
+
+  const { error } = await client.from('puzzle_packages').upsert(row);
+  if (error) {
+    throw new Error(`Failed to store puzzle "${puzzle.id}": ${error.message}`);
+  }
+}
+
+/**
+ * Load one revision of a puzzle with everything the judge needs. Templated puzzles are
+ * instantiated for the seed, which regenerates their hidden tests. Returns null when
+ * that revision was never published.
+ */
+export async function loadServerPuzzle(
+  client: SupabaseClient,
+  id: string,
+  version: number,
+  seed?: number | null
+): Promise<GeneratedPuzzle | null> {
+  const { data, error } = await client
+    .from('puzzle_packages')
+    .select('id, version, puzzle_json, hidden_json, prompt_markdown')
+    .eq('id', id)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load puzzle "${id}": ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const puzzle = parsePuzzleFiles(data.id, {
+    puzzleJson: data.puzzle_json,
+    hiddenJson: data.hidden_json ?? undefined,
+    promptMarkdown: data.prompt_markdown,
+  });
+
+  const { template } = puzzle;
+  if (!template) {
+    return puzzle;
+  }
+  if (seed === undefined || seed === null) {
+    throw new Error(`Puzzle "${id}" is a template, so it needs the seed of its instance`);
+  }
+  return instantiatePuzzle({ ...puzzle, template }, seed);
+}
@@ -0,0 +1,80 @@
+/**
+ * SQL Runtime - Lazily loaded SQLite (sql.js) for SQL puzzles
+ * Every execution gets a fresh in-memory database built from the puzzle schema and the test's seed data
+ */
+import type { SqlJsStatic, SqlValue } from 'sql.js';
+import { type MeasuredValue } from './sandboxExecutor';
+
+// Keep in step with package.json; browsers fetch the WASM binary for this version from the CDN
+const SQL_JS_VERSION = '1.14.2';
+
+export interface QueryResult {
+  columns: string[];
+  rows: unknown[][];
+}
+
+let runtimePromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the SQLite engine once per worker
+ */
+export function loadSqlRuntime(): Promise<SqlJsStatic> {
+  if (!runtimePromise) {
+    runtimePromise = (async () => {
+      const { default: initSqlJs } = await import('sql.js');
+
+      // Node resolves the WASM binary from the package; browsers fetch it from the CDN
+      const isNode = typeof (globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node === 'string';
+      return initSqlJs(
+        isNode ? {} : { locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/sql.js@${SQL_JS_VERSION}/dist/${file}` }
+      );
+    })();
+
+    // Allow a later retry if the download failed
+    runtimePromise.catch(() => {
+      runtimePromise = null;
+    });
+  }
+
+  return runtimePromise;
+}
+
+/**
+ * Run a query against a database seeded for one test.
+ * The rows of the last statement that returns any are the result; the duration covers only the query.
+ */
+export async function runSql(query: string, schema: string, seed: string): Promise<MeasuredValue> {
+  const SQL = await loadSqlRuntime();
+  const db = new SQL.Database();
+
+  try {
+    try {
+      db.exec(schema);
+      if (seed.trim()) {
+        db.exec(seed);
+      }
+    } catch (error) {
+      throw new Error(`Puzzle data could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const startTime = performance.now();
+    const results = db.exec(query);
+    const durationMs = performance.now() - startTime;
+
+    const last = results[results.length - 1];
+    const value: QueryResult = last
+      ? { columns: last.columns, rows: last.values.map(row => row.map(toJsonValue)) }
+      : { columns: [], rows: [] };
+
+    return { value, durationMs };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * BLOB columns arrive as byte arrays, which are compared as plain number lists
+ */
+function toJsonValue(value: SqlValue): unknown {
+  return value instanceof Uint8Array ? Array.from(value) : value;
+}
@@ -0,0 +1,91 @@
+/**
+ * Statistics - Summaries of repeated timing samples
+ * Used by the benchmark so results carry their spread, not just an average
+ */
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+  level: number; // e.g. 0.95
+}
+
+export interface SampleSummary {
+  count: number;
+  mean: number;
+  median: number;
+  p95: number;
+  min: number;
+  max: number;
+  standardDeviation: number; // sample (n - 1) standard deviation
+  confidenceInterval: ConfidenceInterval; // for the mean
+}
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// Beyond 30 degrees of freedom the normal approximation is close enough
+const Z_CRITICAL_95 = 1.96;
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Percentile by linear interpolation between the closest ranks, p in [0, 100]
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * 95% confidence interval for the mean, using Student's t for small samples
+ */
+export function confidenceInterval95(values: number[]): ConfidenceInterval {
+  const average = mean(values);
+  if (values.length < 2) {
+    return { low: average, high: average, level: 0.95 };
+  }
+
+  const degreesOfFreedom = values.length - 1;
+  const critical = T_CRITICAL_95[degreesOfFreedom - 1] ?? Z_CRITICAL_95;
+  const margin = critical * standardDeviation(values) / Math.sqrt(values.length);
+  return { low: average - margin, high: average + margin, level: 0.95 };
+}
+
+/**
+ * Everything the benchmark reports about a set of samples
+ */
+export function summarize(values: number[]): SampleSummary {
+  return {
+    count: values.length,
+    mean: mean(values),
+    median: median(values),
+    p95: percentile(values, 95),
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+    standardDeviation: standardDeviation(values),
+    confidenceInterval: confidenceInterval95(values),
+  };
+}
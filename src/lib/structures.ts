@@ -0,0 +1,222 @@
+/**
+ * Structures - Typed parameter schemas for puzzles that take linked lists, trees, graphs or matrices
+ * Test data stays JSON; the sandbox builds real structures before the call and flattens the result afterwards
+ */
+
+export type ParamType = 'any' | 'ListNode' | 'TreeNode' | 'Graph' | 'Matrix';
+
+export interface FunctionSignature {
+  params: ParamType[];
+  returns?: ParamType; // defaults to 'any'
+  kind?: 'function' | 'class'; // class puzzles replay operation sequences (see operations.ts) and leave params empty
+}
+
+// Guards serialization against cyclic lists and graphs produced by buggy submissions
+const MAX_STRUCTURE_NODES = 100000;
+
+export class ListNode {
+  val: unknown;
+  next: ListNode | null;
+
+  constructor(val: unknown = 0, next: ListNode | null = null) {
+    this.val = val;
+    this.next = next;
+  }
+}
+
+export class TreeNode {
+  val: unknown;
+  left: TreeNode | null;
+  right: TreeNode | null;
+
+  constructor(val: unknown = 0, left: TreeNode | null = null, right: TreeNode | null = null) {
+    this.val = val;
+    this.left = left;
+    this.right = right;
+  }
+}
+
+export class GraphNode {
+  val: number;
+  neighbors: GraphNode[];
+
+  constructor(val: number = 0, neighbors: GraphNode[] = []) {
+    this.val = val;
+    this.neighbors = neighbors;
+  }
+}
+
+/**
+ * Build the structure a parameter expects from its JSON test value
+ */
+export function buildArgument(value: unknown, type: ParamType = 'any'): unknown {
+  switch (type) {
+    case 'ListNode':
+      return buildList(expectArray(value, type));
+    case 'TreeNode':
+      return buildTree(expectArray(value, type));
+    case 'Graph':
+      return buildGraph(expectArray(value, type));
+    case 'Matrix':
+      return expectMatrix(value).map(row => [...row]);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Flatten a returned structure back into the JSON form used by expected outputs
+ */
+export function serializeValue(value: unknown, type: ParamType = 'any'): unknown {
+  switch (type) {
+    case 'ListNode':
+      return serializeList(value as ListNode | null);
+    case 'TreeNode':
+      return serializeTree(value as TreeNode | null);
+    case 'Graph':
+      return serializeGraph(value as GraphNode | null);
+    case 'Matrix':
+      return expectMatrix(value);
+    default:
+      return value;
+  }
+}
+
+// Private helpers
+
+function expectArray(value: unknown, type: ParamType): unknown[] {
+  if (value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new TypeError(`${type} input must be an array, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function expectMatrix(value: unknown): unknown[][] {
+  if (!Array.isArray(value) || !value.every(Array.isArray)) {
+    throw new TypeError('Matrix must be an array of rows');
+  }
+  const width = value[0]?.length ?? 0;
+  if (value.some(row => row.length !== width)) {
+    throw new TypeError('Matrix rows must all have the same length');
+  }
+  return value;
+}
+
+function buildList(values: unknown[]): ListNode | null {
+  let head: ListNode | null = null;
+  for (let i = values.length - 1; i >= 0; i--) {
+    head = new ListNode(values[i], head);
+  }
+  return head;
+}
+
+function serializeList(head: ListNode | null): unknown[] {
+  const values: unknown[] = [];
+  for (let node = head; node; node = node.next) {
+    if (values.length >= MAX_STRUCTURE_NODES) {
+      throw new Error('Returned linked list is too long or contains a cycle');
+    }
+    values.push(node.val);
+  }
+  return values;
+}
+
+/**
+ * Level-order with nulls for missing children, e.g. [5,1,4,null,null,3,6]
+ */
+function buildTree(values: unknown[]): TreeNode | null {
+  if (values.length === 0 || values[0] === null) return null;
+
+  const root = new TreeNode(values[0]);
+  const queue: TreeNode[] = [root];
+  let index = 1;
+
+  while (queue.length > 0 && index < values.length) {
+    const node = queue.shift()!;
+
+    if (index < values.length && values[index] !== null) {
+      node.left = new TreeNode(values[index]);
+      queue.push(node.left);
+    }
+    index++;
+
+    if (index < values.length && values[index] !== null) {
+      node.right = new TreeNode(values[index]);
+      queue.push(node.right);
+    }
+    index++;
+  }
+
+  return root;
+}
+
+function serializeTree(root: TreeNode | null): unknown[] {
+  const values: unknown[] = [];
+  const queue: (TreeNode | null)[] = [root];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (values.length >= MAX_STRUCTURE_NODES) {
+      throw new Error('Returned tree is too large or contains a cycle');
+    }
+    if (node) {
+      values.push(node.val);
+      queue.push(node.left, node.right);
+    } else {
+      values.push(null);
+    }
+  }
+
+  // Trailing nulls carry no information in level-order form
+  while (values.length > 0 && values[values.length - 1] === null) {
+    values.pop();
+  }
+  return values;
+}
+
+/**
+ * Adjacency lists for nodes 1..n, e.g. [[2,4],[1,3],[2,4],[1,3]]; the function receives node 1
+ */
+function buildGraph(adjacency: unknown[]): GraphNode | null {
+  if (adjacency.length === 0) return null;
+
+  const nodes = adjacency.map((_, index) => new GraphNode(index + 1));
+  adjacency.forEach((neighbors, index) => {
+    if (!Array.isArray(neighbors)) {
+      throw new TypeError('Graph input must be a list of adjacency lists');
+    }
+    nodes[index].neighbors = neighbors.map(neighbor => {
+      const node = nodes[Number(neighbor) - 1];
+      if (!node) throw new TypeError(`Graph references unknown node ${neighbor}`);
+      return node;
+    });
+  });
+
+  return nodes[0];
+}
+
+function serializeGraph(start: GraphNode | null): number[][] {
+  if (!start) return [];
+
+  const visited = new Map<number, GraphNode>();
+  const queue: GraphNode[] = [start];
+  visited.set(start.val, start);
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const neighbor of node.neighbors) {
+      if (!visited.has(neighbor.val)) {
+        if (visited.size >= MAX_STRUCTURE_NODES) {
+          throw new Error('Returned graph is too large');
+        }
+        visited.set(neighbor.val, neighbor);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return [...visited.values()]
+    .sort((a, b) => a.val - b.val)
+    .map(node => node.neighbors.map(neighbor => neighbor.val));
+}
@@ -1,4 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
+import { type FunctionSignature } from './structures';
+import { type InputGeneratorSpec } from './complexity';
+import { type Language } from '../types';
+import { type Verdict } from './verdicts';
+import { type SelectionReason } from './puzzleSelection';
+import { type CodingStyle } from './codingStyle';
 
 // Environment variables with validation
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -50,6 +56,7 @@ export interface Database {
           elo_rating: number;
           games_played: number;
           games_won: number;
+          coding_style: CodingStyle | null;
           created_at: string;
           rating: number;
         };
@@ -61,6 +68,7 @@ export interface Database {
           elo_rating?: number;
           games_played?: number;
           games_won?: number;
+          coding_style?: CodingStyle | null;
           created_at?: string;
           rating?: number;
         };
@@ -72,6 +80,7 @@ export interface Database {
           elo_rating?: number;
           games_played?: number;
           games_won?: number;
+          coding_style?: CodingStyle | null;
           created_at?: string;
           rating?: number;
         };
@@ -102,6 +111,16 @@ export interface Database {
           mode: string;
           prompt: string;
           test_cases: any;
+          signature: FunctionSignature | null;
+          languages: Language[] | null;
+          sql_schema: string | null;
+          starter_code: Partial<Record<Language, string>> | null;
+          puzzle_id: string | null;
+          puzzle_version: number | null;
+          puzzle_seed: number | null;
+          selection_reason: SelectionReason | null;
+          input_generator: InputGeneratorSpec | null;
+          memory_limit_mb: number;
           time_limit: number;
           elo_change: number | null;
           created_at: string;
@@ -116,6 +135,16 @@ export interface Database {
           mode: string;
           prompt: string;
           test_cases: any;
+          signature?: FunctionSignature | null;
+          languages?: Language[] | null;
+          sql_schema?: string | null;
+          starter_code?: Partial<Record<Language, string>> | null;
+          puzzle_id?: string | null;
+          puzzle_version?: number | null;
+          puzzle_seed?: number | null;
+          selection_reason?: SelectionReason | null;
+          input_generator?: InputGeneratorSpec | null;
+          memory_limit_mb?: number;
           time_limit: number;
           elo_change?: number | null;
           created_at?: string;
@@ -130,6 +159,16 @@ export interface Database {
           mode?: string;
           prompt?: string;
           test_cases?: any;
+          signature?: FunctionSignature | null;
+          languages?: Language[] | null;
+          sql_schema?: string | null;
+          starter_code?: Partial<Record<Language, string>> | null;
+          puzzle_id?: string | null;
+          puzzle_version?: number | null;
+          puzzle_seed?: number | null;
+          selection_reason?: SelectionReason | null;
+          input_generator?: InputGeneratorSpec | null;
+          memory_limit_mb?: number;
           time_limit?: number;
           elo_change?: number | null;
           created_at?: string;
@@ -146,6 +185,8 @@ export interface Database {
           passed_tests: number;
           total_tests: number;
           runtime_ms: number;
+          language: Language;
+          verdict: Verdict | null;
           submitted_at: string;
         };
         Insert: {
@@ -156,6 +197,8 @@ export interface Database {
           passed_tests: number;
           total_tests: number;
           runtime_ms: number;
+          language?: Language;
+          verdict?: Verdict | null;
           submitted_at?: string;
         };
         Update: {
@@ -166,6 +209,8 @@ export interface Database {
           passed_tests?: number;
           total_tests?: number;
           runtime_ms?: number;
+          language?: Language;
+          verdict?: Verdict | null;
           submitted_at?: string;
         };
       };
@@ -178,6 +223,12 @@ export interface Database {
           difficulty: 'easy' | 'medium' | 'hard';
           prompt: string;
           test_cases: any;
+          signature: FunctionSignature | null;
+          languages: Language[] | null;
+          sql_schema: string | null;
+          puzzle_id: string | null;
+          puzzle_version: number | null;
+          puzzle_seed: number | null;
           hints_used: number;
           completed: boolean;
           score: number;
@@ -191,6 +242,12 @@ export interface Database {
           difficulty: 'easy' | 'medium' | 'hard';
           prompt: string;
           test_cases: any;
+          signature?: FunctionSignature | null;
+          languages?: Language[] | null;
+          sql_schema?: string | null;
+          puzzle_id?: string | null;
+          puzzle_version?: number | null;
+          puzzle_seed?: number | null;
           hints_used?: number;
           completed?: boolean;
           score?: number;
@@ -204,6 +261,12 @@ export interface Database {
           difficulty?: 'easy' | 'medium' | 'hard';
           prompt?: string;
           test_cases?: any;
+          signature?: FunctionSignature | null;
+          languages?: Language[] | null;
+          sql_schema?: string | null;
+          puzzle_id?: string | null;
+          puzzle_version?: number | null;
+          puzzle_seed?: number | null;
           hints_used?: number;
           completed?: boolean;
           score?: number;
@@ -301,6 +364,38 @@ export interface Database {
           updated_at?: string | null;
         };
       };
+      puzzle_ratings: {
+        Row: {
+          puzzle_id: string;
+          rating: number;
+          attempts: number;
+          solves: number;
+          solve_rate: number;
+          median_solve_seconds: number | null;
+          difficulty: 'easy' | 'medium' | 'hard';
+          updated_at: string;
+        };
+        Insert: {
+          puzzle_id: string;
+          rating: number;
+          attempts?: number;
+          solves?: number;
+          solve_rate?: number;
+          median_solve_seconds?: number | null;
+          difficulty: 'easy' | 'medium' | 'hard';
+          updated_at?: string;
+        };
+        Update: {
+          puzzle_id?: string;
+          rating?: number;
+          attempts?: number;
+          solves?: number;
+          solve_rate?: number;
+          median_solve_seconds?: number | null;
+          difficulty?: 'easy' | 'medium' | 'hard';
+          updated_at?: string;
+        };
+      };
     };
     Functions: {
       calculate_elo_change: {
@@ -331,6 +426,7 @@ export type Submission = Database['public']['Tables']['submissions']['Row'];
 export type PracticeSession = Database['public']['Tables']['practice_sessions']['Row'];
 export type MatchHistory = Database['public']['Tables']['match_history']['Row'];
 export type UserStats = Database['public']['Tables']['user_stats']['Row'];
+export type PuzzleRatingRow = Database['public']['Tables']['puzzle_ratings']['Row'];
 
 // Utility functions
 export const isSupabaseConfigured = () => {
@@ -0,0 +1,116 @@
+/**
+ * TypeScript Compiler - Strips types from TypeScript submissions before execution
+ * The compiler is large, so it is only loaded the first time a TypeScript submission runs
+ */
+
+export interface TranspileDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface TranspileResult {
+  output: string;
+  diagnostics: TranspileDiagnostic[];
+  sourceMap?: string; // only when requested; maps output positions back to the submission
+}
+
+export interface TranspileOptions {
+  sourceMap?: boolean;
+}
+
+// Base64 digits of source map VLQ segments
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Transpile TypeScript to JavaScript, collecting syntax diagnostics with source positions
+ */
+export async function transpileTypeScript(code: string, options: TranspileOptions = {}): Promise<TranspileResult> {
+  const { default: ts } = await import('typescript');
+
+  const { outputText, sourceMapText, diagnostics = [] } = ts.transpileModule(code, {
+    fileName: 'submission.ts',
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      sourceMap: options.sourceMap,
+    },
+  });
+
+  return {
+    output: outputText,
+    sourceMap: sourceMapText,
+    diagnostics: diagnostics.map(diagnostic => {
+      const position = diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : { line: 0, character: 0 };
+
+      return {
+        line: position.line + 1,
+        column: position.character + 1,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      };
+    }),
+  };
+}
+
+/**
+ * Map 1-based positions in transpiled output back to the submission. Positions between
+ * mapped segments take the nearest segment before them on the same line.
+ */
+export function createSourceMapper(sourceMap: string): (line: number, column: number) => { line: number; column: number } {
+  const lines = decodeMappings((JSON.parse(sourceMap) as { mappings: string }).mappings);
+
+  return (line, column) => {
+    const segment = (lines[line - 1] ?? []).filter(([generatedColumn]) => generatedColumn <= column - 1).pop();
+    return segment ? { line: segment[1] + 1, column: segment[2] + 1 } : { line, column };
+  };
+}
+
+/**
+ * Decode source map mappings into [generatedColumn, sourceLine, sourceColumn] segments per output line, all 0-based
+ */
+function decodeMappings(mappings: string): Array<Array<[number, number, number]>> {
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  return mappings.split(';').map(line => {
+    let generatedColumn = 0;
+    return line.split(',').filter(Boolean).flatMap(segment => {
+      const fields = decodeVlq(segment);
+      generatedColumn += fields[0];
+      if (fields.length < 4) return [];
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      return [[generatedColumn, sourceLine, sourceColumn] as [number, number, number]];
+    });
+  });
+}
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >> 1) : value >> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Format a diagnostic the way validation errors are displayed
+ */
+export function formatDiagnostic(diagnostic: TranspileDiagnostic): string {
+  return `Line ${diagnostic.line}, Column ${diagnostic.column}: ${diagnostic.message}`;
+}
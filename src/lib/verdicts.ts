@@ -0,0 +1,68 @@
+/**
+ * Verdicts - Judge outcomes for single tests and whole submissions
+ * Codes follow the usual online-judge conventions so players recognise them at a glance
+ */
+import { type TestStatus } from './sandboxRunner';
+
+export type Verdict =
+  | 'AC' // Accepted
+  | 'WA' // Wrong Answer
+  | 'RE' // Runtime Error
+  | 'TLE' // Time Limit Exceeded
+  | 'MLE' // Memory Limit Exceeded
+  | 'CE' // Compile Error: syntax or type errors, caught before anything runs
+  | 'SV'; // Security Violation: rejected by the sandbox's static checks
+
+export type VerdictCounts = Partial<Record<Verdict, number>>;
+
+export const VERDICT_LABELS: Record<Verdict, string> = {
+  AC: 'Accepted',
+  WA: 'Wrong Answer',
+  RE: 'Runtime Error',
+  TLE: 'Time Limit Exceeded',
+  MLE: 'Memory Limit Exceeded',
+  CE: 'Compile Error',
+  SV: 'Security Violation',
+};
+
+// Order used when listing counts
+export const VERDICTS: Verdict[] = ['AC', 'WA', 'RE', 'TLE', 'MLE', 'CE', 'SV'];
+
+const STATUS_VERDICTS: Record<TestStatus, Verdict> = {
+  passed: 'AC',
+  failed: 'WA',
+  error: 'RE',
+  timeout: 'TLE',
+  memory: 'MLE',
+};
+
+/**
+ * Verdict for one executed test
+ */
+export function testVerdict(status: TestStatus): Verdict {
+  return STATUS_VERDICTS[status];
+}
+
+/**
+ * Verdict for a submission whose tests all ran: accepted, or the verdict of the first test that was not
+ */
+export function overallVerdict(verdicts: Verdict[]): Verdict {
+  return verdicts.find(verdict => verdict !== 'AC') ?? 'AC';
+}
+
+/**
+ * Verdict for a submission rejected before running; compile errors win over security findings
+ */
+export function validationVerdict(errors: string[]): Verdict {
+  return errors.length > 0 ? 'CE' : 'SV';
+}
+
+export function countVerdicts(verdicts: (Verdict | undefined)[]): VerdictCounts {
+  const counts: VerdictCounts = {};
+  for (const verdict of verdicts) {
+    if (verdict) {
+      counts[verdict] = (counts[verdict] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Clock, Send, Zap, CheckCircle, Trophy, ArrowLeft } from 'lucide-react';
+import { Clock, Send, Zap, CheckCircle, Trophy, ArrowLeft, EyeOff } from 'lucide-react';
 import Editor from '@monaco-editor/react';
 import AnimatedButton from '../components/AnimatedButton';
 import AnimatedCard from '../components/AnimatedCard';
@@ -9,9 +9,12 @@ import AnimatedTimer from '../components/AnimatedTimer';
 import ConfettiEffect from '../components/ConfettiEffect';
 import RatingDisplay from '../components/RatingDisplay';
 import CodeExecutionPanel from '../components/CodeExecutionPanel';
+import TestCaseAnimation from '../components/TestCaseAnimation';
+import VerdictBadge, { VerdictCountList } from '../components/VerdictBadge';
 import ThemeToggle from '../components/ThemeToggle';
+import LanguageSelector from '../components/LanguageSelector';
 import PageTransition from '../components/PageTransition';
-import { submitDuel } from '../services/api';
+import { submitDuel, type SubmitDuelResponse } from '../services/api';
 import { useAuth } from '../hooks/useAuth';
 import { useSimpleMatchmakingStore } from '../store/simpleMatchmakingStore';
 import { useKeystrokeStore } from '../store/keystrokeStore';
@@ -19,12 +22,20 @@ import { useSandboxRunner } from '../hooks/useSandboxRunner';
 import { joinDuel, type DuelJoinResponse } from '../services/duelJoinService';
 import { type ExecutionResult } from '../services/codeExecutionService';
 import { supabase } from '../lib/supabaseClient';
+import { getLanguageOption, getPuzzleLanguageOptions, getStarterCode, isStarterCode } from '../lib/languages';
+import { type FunctionSignature } from '../lib/structures';
+import { Language } from '../types';
 
 interface DuelData {
   id: string;
   prompt: string;
   test_cases: Array<{ input: string; expected: string }>;
+  signature?: FunctionSignature | null;
   time_limit: number;
+  memory_limit_mb?: number;
+  languages?: Language[] | null;
+  sql_schema?: string | null;
+  starter_code?: Partial<Record<Language, string>> | null;
   mode: string;
   status: string;
   creator_id: string;
@@ -46,7 +57,8 @@ const DuelPage: React.FC = () => {
   const location = useLocation();
   const [duelData, setDuelData] = useState<DuelData | null>(null);
   const [matchData, setMatchData] = useState<MatchData | null>(null);
-  const [code, setCode] = useState('// Your solution here\nfunction solve() {\n  \n}');
+  const [language, setLanguage] = useState<Language>('javascript');
+  const [code, setCode] = useState(getLanguageOption('javascript').starterCode);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [timeLeft, setTimeLeft] = useState(900); // 15 minutes default
@@ -55,6 +67,10 @@ const DuelPage: React.FC = () => {
   const [ratingDelta, setRatingDelta] = useState<number | undefined>();
   const [speedBonus, setSpeedBonus] = useState<number | undefined>();
   const [performanceScore, setPerformanceScore] = useState<number | undefined>();
+  const [hiddenTests, setHiddenTests] = useState<SubmitDuelResponse['hiddenTests']>();
+  const [complexity, setComplexity] = useState<SubmitDuelResponse['complexity']>();
+  const [fuzzFailure, setFuzzFailure] = useState<SubmitDuelResponse['fuzzFailure']>();
+  const [verdict, setVerdict] = useState<Pick<SubmitDuelResponse, 'verdict' | 'verdictCounts'>>({});
   const [loading, setLoading] = useState(true);
   const [joinError, setJoinError] = useState<string | null>(null);
   
@@ -69,7 +85,28 @@ const DuelPage: React.FC = () => {
     error: sandboxError,
     executeCode,
     validateCode,
-  } = useSandboxRunner(duelData?.test_cases || [], code);
+  } = useSandboxRunner(
+    duelData?.test_cases || [],
+    code,
+    duelData?.signature ?? undefined,
+    duelData?.memory_limit_mb,
+    duelData?.sql_schema ?? undefined
+  );
+
+  const languageOptions = useMemo(() => getPuzzleLanguageOptions(duelData?.languages), [duelData?.languages]);
+
+  // Puzzles that accept only some languages, such as SQL puzzles, switch the editor to the first of them
+  useEffect(() => {
+    if (languageOptions.some(option => option.id === language)) return;
+    const fallback = languageOptions[0];
+    setLanguage(fallback.id);
+    setCode(current => (isStarterCode(current, duelData?.starter_code) ? getStarterCode(fallback.id, duelData?.starter_code) : current));
+  }, [languageOptions, language, duelData?.starter_code]);
+
+  // The puzzle's own starter code replaces the generic one until the player starts typing
+  useEffect(() => {
+    setCode(current => (isStarterCode(current, duelData?.starter_code) ? getStarterCode(language, duelData?.starter_code) : current));
+  }, [duelData?.starter_code, language]);
 
   // Clean up queue when component mounts (user navigated to duel)
   useEffect(() => {
@@ -201,6 +238,15 @@ const DuelPage: React.FC = () => {
     }
   };
 
+  const handleLanguageChange = (nextLanguage: Language) => {
+    setLanguage(nextLanguage);
+    // Results from another language no longer describe the code being submitted
+    setLastExecutionResult(null);
+    if (isStarterCode(code, duelData?.starter_code)) {
+      setCode(getStarterCode(nextLanguage, duelData?.starter_code));
+    }
+  };
+
   const handleSubmit = async () => {
     if (!id || !duelData) return;
 
@@ -213,17 +259,22 @@ const DuelPage: React.FC = () => {
     console.log('📤 Submitting duel solution:', {
       duelId: id,
       codeLength: code.length,
+      language,
       passedTests: lastExecutionResult.passedTests,
       totalTests: lastExecutionResult.totalTests,
     });
 
     setIsSubmitting(true);
     try {
-      const result = await submitDuel(id, code);
-      
-      setSubmitted(true);
+      const result = await submitDuel(id, code, language);
+      setHiddenTests(result.hiddenTests);
+      setComplexity(result.complexity);
+      setFuzzFailure(result.fuzzFailure);
+      setVerdict({ verdict: result.verdict, verdictCounts: result.verdictCounts });
       
       if (result.passed) {
+        // A failed hidden test leaves the editor open for another attempt
+        setSubmitted(true);
         setShowConfetti(true);
         console.log('🎉 Duel completed successfully!');
       }
@@ -377,6 +428,36 @@ const DuelPage: React.FC = () => {
                 </motion.div>
               )}
               
+              {/* Judge Verdict */}
+              {verdict.verdict && (
+                <div className="flex items-center space-x-2">
+                  <VerdictBadge verdict={verdict.verdict} />
+                  {verdict.verdictCounts && (
+                    <VerdictCountList counts={verdict.verdictCounts} />
+                  )}
+                </div>
+              )}
+              
+              {/* Hidden Test Summary */}
+              {hiddenTests && hiddenTests.total > 0 && (
+                <div
+                  className={`flex items-center space-x-1 text-sm ${
+                    hiddenTests.passed === hiddenTests.total ? 'text-green-500' : 'text-red-500'
+                  }`}
+                >
+                  <EyeOff className="h-4 w-4" />
+                  <span>Hidden tests {hiddenTests.passed}/{hiddenTests.total}</span>
+                </div>
+              )}
+              
+              {/* Measured Time Complexity */}
+              {complexity && (
+                <div className="flex items-center space-x-1 text-sm text-purple-500" title="Estimated from timings at growing input sizes">
+                  <Zap className="h-4 w-4" />
+                  <span>{complexity}</span>
+                </div>
+              )}
+              
               {/* Sandbox Status Indicator */}
               {sandboxReady && (
                 <div className="flex items-center space-x-1 text-green-500 text-sm">
@@ -385,6 +466,13 @@ const DuelPage: React.FC = () => {
                 </div>
               )}
               
+              <LanguageSelector
+                language={language}
+                onLanguageChange={handleLanguageChange}
+                options={languageOptions}
+                disabled={submitted}
+              />
+              
               <ThemeToggle />
               
               {/* Submit Button */}
@@ -453,11 +541,32 @@ const DuelPage: React.FC = () => {
                   <CodeExecutionPanel
                     code={code}
                     testCases={duelData.test_cases}
+                    signature={duelData.signature ?? undefined}
+                    memoryLimitMb={duelData.memory_limit_mb}
+                    sqlSchema={duelData.sql_schema ?? undefined}
+                    puzzleKey={`duel:${id}`}
                     onExecutionComplete={handleExecutionComplete}
-                    language="javascript"
+                    language={language}
                     userId={user?.id}
                   />
                   
+                  {/* Smallest generated input the judge found where the submission disagrees with the reference */}
+                  {fuzzFailure && (
+                    <div className="mt-4">
+                      <TestCaseAnimation
+                        status="failed"
+                        verdict={fuzzFailure.verdict}
+                        input={fuzzFailure.input}
+                        expected={fuzzFailure.expected}
+                        actual={fuzzFailure.actual}
+                        error={fuzzFailure.error}
+                        logs={fuzzFailure.logs}
+                        index={0}
+                        title="Generated test"
+                      />
+                    </div>
+                  )}
+                  
                   {/* Sandbox Status */}
                   <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
                     Sandbox: {sandboxReady ? '✅ Ready' : sandboxInitialized ? '🔧 Initializing...' : '⏳ Loading...'}
@@ -480,7 +589,7 @@ const DuelPage: React.FC = () => {
             <div className="flex-1">
               <Editor
                 height="100%"
-                defaultLanguage="javascript"
+                language={getLanguageOption(language).monacoLanguage}
                 theme={document.documentElement.classList.contains('dark') ? 'vs-dark' : 'light'}
                 value={code}
                 onChange={handleEditorChange}
@@ -1,23 +1,35 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { BookOpen, Target, Lightbulb, Code, ArrowLeft } from 'lucide-react';
-import Editor from '@monaco-editor/react';
+import Editor, { type OnMount } from '@monaco-editor/react';
 import AnimatedButton from '../components/AnimatedButton';
 import AnimatedCard from '../components/AnimatedCard';
 import TestCaseAnimation from '../components/TestCaseAnimation';
 import CodeExecutionPanel from '../components/CodeExecutionPanel';
 import ThemeToggle from '../components/ThemeToggle';
+import LanguageSelector from '../components/LanguageSelector';
 import PageTransition from '../components/PageTransition';
-import { PracticeMode, Difficulty } from '../types';
+import { PracticeMode, Difficulty, Language } from '../types';
 import { useAuth } from '../hooks/useAuth';
 import { startPractice, submitPractice } from '../services/api';
 import { type ExecutionResult } from '../services/codeExecutionService';
+import { getLanguageOption, getPuzzleLanguageOptions, getStarterCode, isStarterCode } from '../lib/languages';
+import { type FunctionSignature } from '../lib/structures';
+import { type CoverageReport, type LineCoverage } from '../lib/coverage';
+
+type CodeEditor = Parameters<OnMount>[0];
+type MonacoApi = Parameters<OnMount>[1];
 
 interface PracticeData {
   sessionId: string;
   prompt: string;
   tests: Array<{ input: string; expected: string }>;
+  signature?: FunctionSignature;
+  memoryLimitMb?: number;
+  languages?: Language[];
+  sqlSchema?: string;
+  starterCode?: Partial<Record<Language, string>>;
   hints: string[];
 }
 
@@ -27,13 +39,46 @@ const PracticePage: React.FC = () => {
   const [selectedTopic, setSelectedTopic] = useState('arrays');
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>('easy');
   const [practiceData, setPracticeData] = useState<PracticeData | null>(null);
-  const [code, setCode] = useState('// Your solution here\nfunction solve() {\n  \n}');
+  const [language, setLanguage] = useState<Language>('javascript');
+  const [code, setCode] = useState(getLanguageOption('javascript').starterCode);
   const [hintsUsed, setHintsUsed] = useState(0);
   const [showHint, setShowHint] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [lastExecutionResult, setLastExecutionResult] = useState<ExecutionResult | null>(null);
+  const [coverage, setCoverage] = useState<CoverageReport | undefined>();
+  const editorRef = useRef<{ editor: CodeEditor; monaco: MonacoApi } | null>(null);
+  const coverageDecorations = useRef<ReturnType<CodeEditor['createDecorationsCollection']> | null>(null);
   const { user } = useAuth();
 
+  const languageOptions = useMemo(() => getPuzzleLanguageOptions(practiceData?.languages), [practiceData?.languages]);
+
+  // Puzzles that accept only some languages, such as SQL puzzles, switch the editor to the first of them
+  useEffect(() => {
+    if (languageOptions.some(option => option.id === language)) return;
+    const fallback = languageOptions[0];
+    setLanguage(fallback.id);
+    setCode(current => (isStarterCode(current, practiceData?.starterCode) ? getStarterCode(fallback.id, practiceData?.starterCode) : current));
+  }, [languageOptions, language, practiceData?.starterCode]);
+
+  // Gutter marks for the last run: green lines ran, red lines were never reached by any test, and
+  // amber lines ran only in part, such as `if (x) return y;` whose return never ran.
+  // Decorations move with edits, so marks stay on their statements until the next run.
+  useEffect(() => {
+    const mounted = editorRef.current;
+    if (!mounted) return;
+
+    coverageDecorations.current ??= mounted.editor.createDecorationsCollection();
+    coverageDecorations.current.set(
+      Object.entries(coverage ?? {}).map(([line, lineCoverage]) => ({
+        range: new mounted.monaco.Range(Number(line), 1, Number(line), 1),
+        options: {
+          glyphMarginClassName: coverageClassName(lineCoverage),
+          glyphMarginHoverMessage: { value: describeCoverage(lineCoverage) },
+        },
+      }))
+    );
+  }, [coverage]);
+
   const practiceModes = [
     {
       id: 'warm-up' as PracticeMode,
@@ -67,6 +112,8 @@ const PracticePage: React.FC = () => {
     try {
       const data = await startPractice(selectedTopic, selectedDifficulty, selectedMode);
       setPracticeData(data);
+      // A new puzzle starts from its own starter code
+      setCode(getStarterCode(language, data.starterCode));
     } catch (error) {
       console.error('Failed to start practice:', error);
     }
@@ -83,7 +130,7 @@ const PracticePage: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      const result = await submitPractice(practiceData.sessionId, code);
+      const result = await submitPractice(practiceData.sessionId, code, language);
       
       console.log('Practice result:', result);
       // Handle result feedback
@@ -94,6 +141,15 @@ const PracticePage: React.FC = () => {
     }
   };
 
+  const handleLanguageChange = (nextLanguage: Language) => {
+    setLanguage(nextLanguage);
+    setLastExecutionResult(null);
+    setCoverage(undefined);
+    if (isStarterCode(code, practiceData?.starterCode)) {
+      setCode(getStarterCode(nextLanguage, practiceData?.starterCode));
+    }
+  };
+
   const handleShowHint = () => {
     setShowHint(true);
     setHintsUsed(prev => prev + 1);
@@ -101,6 +157,12 @@ const PracticePage: React.FC = () => {
 
   const handleExecutionComplete = (result: ExecutionResult) => {
     setLastExecutionResult(result);
+    setCoverage(result.coverage);
+  };
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = { editor, monaco };
+    coverageDecorations.current = null;
   };
 
   if (practiceData) {
@@ -135,6 +197,11 @@ const PracticePage: React.FC = () => {
               <div className="text-sm text-gray-500 dark:text-gray-400">
                 Hints used: <span className="text-yellow-400">{hintsUsed}</span>
               </div>
+              <LanguageSelector
+                language={language}
+                onLanguageChange={handleLanguageChange}
+                options={languageOptions}
+              />
               <ThemeToggle />
               <AnimatedButton
                 onClick={handleShowHint}
@@ -193,8 +260,13 @@ const PracticePage: React.FC = () => {
                   <CodeExecutionPanel
                     code={code}
                     testCases={practiceData.tests}
+                    signature={practiceData.signature}
+                    memoryLimitMb={practiceData.memoryLimitMb}
+                    sqlSchema={practiceData.sqlSchema}
+                    collectCoverage
+                    puzzleKey={`practice:${practiceData.sessionId}`}
                     onExecutionComplete={handleExecutionComplete}
-                    language="javascript"
+                    language={language}
                     userId={user?.id}
                   />
                 </div>
@@ -212,10 +284,11 @@ const PracticePage: React.FC = () => {
             <div className="flex-1">
               <Editor
                 height="100%"
-                defaultLanguage="javascript"
+                language={getLanguageOption(language).monacoLanguage}
                 theme={document.documentElement.classList.contains('dark') ? 'vs-dark' : 'light'}
                 value={code}
                 onChange={(value) => setCode(value || '')}
+                onMount={handleEditorMount}
                 options={{
                   fontSize: 14,
                   fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
@@ -224,6 +297,7 @@ const PracticePage: React.FC = () => {
                   automaticLayout: true,
                   tabSize: 2,
                   insertSpaces: true,
+                  glyphMargin: coverage !== undefined,
                 }}
               />
             </div>
@@ -371,4 +445,15 @@ const PracticePage: React.FC = () => {
   );
 };
 
+function coverageClassName({ hits, missed }: LineCoverage): string {
+  if (hits === 0) return 'coverage-miss';
+  return missed > 0 ? 'coverage-partial' : 'coverage-hit';
+}
+
+function describeCoverage({ hits, statements, missed }: LineCoverage): string {
+  if (hits === 0) return 'Never ran';
+  const ran = `Ran ${hits} time${hits === 1 ? '' : 's'}`;
+  return missed > 0 ? `${ran}; ${missed} of ${statements} statements on this line never ran` : ran;
+}
+
 export default PracticePage;
\ No newline at end of file
@@ -5,11 +5,14 @@ import { ArrowLeft, Github, Trophy, Target, Clock, Code } from 'lucide-react';
 import AnimatedButton from '../components/AnimatedButton';
 import AnimatedCard from '../components/AnimatedCard';
 import ProfileCard from '../components/ProfileCard';
+import CodingStyleCard from '../components/CodingStyleCard';
 import PageTransition from '../components/PageTransition';
 import ThemeToggle from '../components/ThemeToggle';
 import { useAuth } from '../hooks/useAuth';
 import { Profile as UserProfile } from '../lib/supabaseClient';
 import { supabase } from '../lib/supabaseClient';
+import { type CodingStyle } from '../lib/codingStyle';
+import { analyzeUploadedArchive } from '../services/codingStyleService';
 
 interface MatchHistoryEntry {
   id: string;
@@ -31,6 +34,8 @@ const ProfilePage: React.FC = () => {
   const [matchHistory, setMatchHistory] = useState<MatchHistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncingGitHub, setSyncingGitHub] = useState(false);
+  const [codingStyle, setCodingStyle] = useState<CodingStyle | null>(null);
+  const [analyzingStyle, setAnalyzingStyle] = useState(false);
 
   const isOwnProfile = !userId || userId === user?.id;
   const displayProfile = isOwnProfile ? currentUserProfile : profile;
@@ -39,6 +44,10 @@ const ProfilePage: React.FC = () => {
     loadProfileData();
   }, [userId, user]);
 
+  useEffect(() => {
+    setCodingStyle(displayProfile?.coding_style ?? null);
+  }, [displayProfile]);
+
   const loadProfileData = async () => {
     setLoading(true);
     try {
@@ -114,6 +123,20 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleStyleUpload = async (archive: File) => {
+    if (!isOwnProfile || !user) return;
+
+    setAnalyzingStyle(true);
+    try {
+      setCodingStyle(await analyzeUploadedArchive(user.id, archive));
+    } catch (error) {
+      console.error('Failed to analyze coding style:', error);
+      alert(error instanceof Error ? error.message : 'Failed to analyze the archive. Please try again.');
+    } finally {
+      setAnalyzingStyle(false);
+    }
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -191,12 +214,19 @@ const ProfilePage: React.FC = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Profile Card */}
             <div className="lg:col-span-1">
-              <ProfileCard
-                profile={displayProfile}
-                isOwnProfile={isOwnProfile}
-                onSyncGitHub={handleSyncGitHub}
-                className="sticky top-8"
-              />
+              <div className="sticky top-8 space-y-6">
+                <ProfileCard
+                  profile={displayProfile}
+                  isOwnProfile={isOwnProfile}
+                  onSyncGitHub={handleSyncGitHub}
+                />
+                <CodingStyleCard
+                  style={codingStyle}
+                  canAnalyze={isOwnProfile}
+                  analyzing={analyzingStyle}
+                  onUpload={handleStyleUpload}
+                />
+              </div>
             </div>
 
             {/* Match History */}
@@ -0,0 +1,52 @@
+/**
+ * Analyze Coding Style - Measures a player's coding style from a local checkout or repository archive
+ * Usage: npm run style:analyze -- <directory | archive.tar[.gz]> [--user <user-id>]
+ * Prints the analysis; with --user it is also stored on that player's profile, which needs
+ * SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in the environment.
+ */
+import { readFileSync, statSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import { analyzeCodingStyle } from '../lib/codingStyle';
+import { TarballSource, type CodeSource } from '../lib/codeSources';
+import { DirectorySource } from '../lib/localCodeSource';
+
+function openSource(path: string): CodeSource {
+  return statSync(path).isDirectory() ? new DirectorySource(path) : new TarballSource(readFileSync(path));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const userFlag = args.indexOf('--user');
+  const userId = userFlag === -1 ? undefined : args[userFlag + 1];
+  const path = args.find((arg, index) => !arg.startsWith('--') && (userFlag === -1 || index !== userFlag + 1));
+
+  if (!path || (userFlag !== -1 && !userId)) {
+    console.error('Usage: npm run style:analyze -- <directory | archive.tar[.gz]> [--user <user-id>]');
+    process.exit(1);
+  }
+
+  console.log(`🔍 Analyzing ${path}...`);
+  const style = await analyzeCodingStyle(openSource(path));
+  console.log(JSON.stringify(style, null, 2));
+
+  if (userId) {
+    const url = process.env.SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      console.error('💥 Storing a coding style needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+      process.exit(1);
+    }
+
+    const { error } = await createClient(url, serviceRoleKey).from('users').update({ coding_style: style }).eq('id', userId);
+    if (error) {
+      console.error('💥 Failed to save coding style:', error.message);
+      process.exit(1);
+    }
+    console.log(`✅ Saved coding style for ${userId}`);
+  }
+}
+
+main().catch(error => {
+  console.error('💥 Coding style analysis failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+/**
+ * Calibrate Puzzles - Rates every bank puzzle from how players actually did on it
+ * Usage: npm run puzzles:calibrate [-- --dry-run]
+ * Reads duels, submissions and match history, then stores each puzzle's solve rate, median solve
+ * time and Elo-style rating in puzzle_ratings. Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY;
+ * with --dry-run the ratings are only printed.
+ */
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { loadLocalPuzzleBank } from '../lib/localPuzzleBank';
+import {
+  buildPuzzleAttempts,
+  calibratePuzzles,
+  type CalibrationDuel,
+  type CalibrationSubmission,
+} from '../lib/puzzleCalibration';
+
+const PAGE_SIZE = 1000;
+
+// Supabase caps every response, so large tables are read a page at a time
+async function fetchAll<T>(
+  label: string,
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to read ${label}: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function loadHistory(client: SupabaseClient) {
+  const [duels, submissions, matches, users] = await Promise.all([
+    fetchAll<{
+      id: string;
+      puzzle_id: string;
+      creator_id: string;
+      opponent_id: string | null;
+      status: string;
+      started_at: string | null;
+      created_at: string;
+    }>('duels', (from, to) => client.from('duels')
+      .select('id, puzzle_id, creator_id, opponent_id, status, started_at, created_at')
+      .not('puzzle_id', 'is', null)
+      .order('created_at')
+      .range(from, to)),
+    fetchAll<{
+      duel_id: string;
+      user_id: string;
+      passed_tests: number;
+      total_tests: number;
+      verdict: string | null;
+      submitted_at: string;
+    }>('submissions', (from, to) => client.from('submissions')
+      .select('duel_id, user_id, passed_tests, total_tests, verdict, submitted_at')
+      .order('submitted_at')
+      .range(from, to)),
+    fetchAll<{ duel_id: string; user_id: string; rating_before: number }>('match history', (from, to) =>
+      client.from('match_history').select('duel_id, user_id, rating_before').order('created_at').range(from, to)),
+    fetchAll<{ id: string; elo_rating: number }>('users', (from, to) =>
+      client.from('users').select('id, elo_rating').order('id').range(from, to)),
+  ]);
+
+  const calibrationDuels: CalibrationDuel[] = duels.map(duel => ({
+    id: duel.id,
+    puzzleId: duel.puzzle_id,
+    participants: [duel.creator_id, duel.opponent_id].filter((id): id is string => id !== null),
+    status: duel.status,
+    startedAt: duel.started_at,
+    createdAt: duel.created_at,
+  }));
+
+  const calibrationSubmissions: CalibrationSubmission[] = submissions.map(submission => ({
+    duelId: submission.duel_id,
+    userId: submission.user_id,
+    passed: submission.verdict === 'AC' || (submission.total_tests > 0 && submission.passed_tests === submission.total_tests),
+    submittedAt: submission.submitted_at,
+  }));
+
+  // The rating a player had going into the duel; unfinished duels only have today's rating to go by
+  const ratingsBefore = new Map(matches.map(match => [`${match.duel_id}:${match.user_id}`, match.rating_before]));
+  const currentRatings = new Map(users.map(user => [user.id, user.elo_rating]));
+  const playerRating = (duelId: string, userId: string) =>
+    ratingsBefore.get(`${duelId}:${userId}`) ?? currentRatings.get(userId);
+
+  return { duels: calibrationDuels, submissions: calibrationSubmissions, playerRating };
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const url = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    console.error('💥 Calibrating puzzles needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const client = createClient(url, serviceRoleKey);
+  const bank = loadLocalPuzzleBank();
+  const { duels, submissions, playerRating } = await loadHistory(client);
+  console.log(`📊 Calibrating ${bank.size} puzzle(s) from ${duels.length} duel(s) and ${submissions.length} submission(s)...`);
+
+  const attempts = buildPuzzleAttempts(duels, submissions, playerRating);
+  const ratings = calibratePuzzles(bank.all(), attempts);
+
+  for (const rating of ratings) {
+    const label = bank.get(rating.puzzleId)?.difficulty;
+    const relabelled = label !== rating.difficulty ? ` (was ${label})` : '';
+    const median = rating.medianSolveSeconds === null ? '-' : `${rating.medianSolveSeconds}s`;
+    console.log(
+      `🧩 ${rating.puzzleId.padEnd(32)} ${String(rating.rating).padStart(5)}  ` +
+      `${rating.solves}/${rating.attempts} solved (${Math.round(rating.solveRate * 100)}%), median ${median}, ` +
+      `${rating.difficulty}${relabelled}`
+    );
+  }
+
+  if (dryRun) {
+    console.log('\n✅ Dry run, nothing saved');
+    return;
+  }
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await client.from('puzzle_ratings').upsert(ratings.map(rating => ({
+    puzzle_id: rating.puzzleId,
+    rating: rating.rating,
+    attempts: rating.attempts,
+    solves: rating.solves,
+    solve_rate: rating.solveRate,
+    median_solve_seconds: rating.medianSolveSeconds,
+    difficulty: rating.difficulty,
+    updated_at: updatedAt,
+  })));
+  if (error) {
+    console.error('💥 Failed to save puzzle ratings:', error.message);
+    process.exit(1);
+  }
+  console.log(`\n✅ Saved ${ratings.length} puzzle rating(s)`);
+}
+
+main().catch(error => {
+  console.error('💥 Puzzle calibration failed:', error);
+  process.exit(1);
+});
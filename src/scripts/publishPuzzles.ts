@@ -0,0 +1,50 @@
+/**
+ * Publish Puzzles - Copies the puzzle bank, hidden tests included, to the server
+ * Usage: npm run puzzles:publish [-- puzzle-id ...]
+ * Stores every valid puzzle directory in puzzle_packages, where the duel judge reads
+ * hidden.json from. Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY. Run it whenever puzzles are
+ * deployed; invalid puzzles are reported and not published.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { listPuzzleDirectories, readPuzzleFiles } from '../lib/localPuzzleBank';
+import { parsePuzzleFiles } from '../lib/puzzleBank';
+import { storeServerPuzzle } from '../lib/serverPuzzleBank';
+
+async function main() {
+  const url = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    console.error('💥 Publishing puzzles needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const selected = process.argv.slice(2);
+  const directories = listPuzzleDirectories()
+    .filter(directory => selected.length === 0 || selected.includes(directory));
+
+  const client = createClient(url, serviceRoleKey);
+  let failed = 0;
+
+  for (const directory of directories) {
+    const files = readPuzzleFiles(directory);
+    try {
+      const puzzle = parsePuzzleFiles(directory, files);
+      await storeServerPuzzle(client, puzzle, files, 'bank');
+      console.log(`🧩 ${puzzle.id} v${puzzle.version}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${directory}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failed > 0) {
+    console.log(`\n💥 ${failed} of ${directories.length} puzzle(s) not published`);
+    process.exit(1);
+  }
+  console.log(`\n✅ Published ${directories.length} puzzle(s)`);
+}
+
+main().catch(error => {
+  console.error('💥 Puzzle publishing failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+/**
+ * Validate Puzzles - Checks every puzzle in the bank before it reaches players
+ * Usage: npm run puzzles:validate [-- puzzle-id ...]
+ * Exits with status 1 when any puzzle has an error; warnings are only printed.
+ */
+import { listPuzzleDirectories, readPuzzleFiles } from '../lib/localPuzzleBank';
+import { parsePuzzleFiles, type BankPuzzle } from '../lib/puzzleBank';
+import { checkPuzzles, type PuzzleIssue } from '../lib/puzzleValidation';
+
+async function main() {
+  const selected = process.argv.slice(2);
+  const directories = listPuzzleDirectories()
+    .filter(directory => selected.length === 0 || selected.includes(directory));
+
+  const puzzles: BankPuzzle[] = [];
+  const issues: PuzzleIssue[] = [];
+
+  for (const directory of directories) {
+    try {
+      puzzles.push(parsePuzzleFiles(directory, readPuzzleFiles(directory)));
+    } catch (error) {
+      issues.push({
+        puzzleId: directory,
+        kind: 'invalid-package',
+        severity: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.log(`🧩 Checking ${puzzles.length} puzzle(s)...`);
+
+  // The sandbox logs every run; only the findings matter here
+  const log = console.log;
+  console.log = () => {};
+  try {
+    issues.push(...await checkPuzzles(puzzles));
+  } finally {
+    console.log = log;
+  }
+
+  for (const issue of issues) {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️';
+    console.log(`${icon} ${issue.puzzleId} [${issue.kind}] ${issue.message}`);
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+  if (errors > 0) {
+    console.log(`\n💥 ${errors} error(s), ${warnings} warning(s) in ${directories.length} puzzle(s)`);
+    process.exit(1);
+  }
+  console.log(`\n✅ ${directories.length} puzzle(s) valid${warnings > 0 ? `, ${warnings} warning(s)` : ''}`);
+}
+
+main().catch(error => {
+  console.error('💥 Puzzle validation failed:', error);
+  process.exit(1);
+});
@@ -3,18 +3,33 @@
  * This provides backward compatibility while we migrate to the new service architecture
  */
 import { supabase } from '../lib/supabaseClient';
-import { generatePuzzle } from '../lib/puzzleGenerator';
-import { runCodeSandbox } from '../lib/sandboxRunner';
+import { generatePuzzle, type PuzzleTest } from '../lib/puzzleGenerator';
+import { type FunctionSignature } from '../lib/structures';
+import {
+  runCodeSandbox,
+  type ComplexityClass,
+  type HiddenTestSummary,
+  type TestResult,
+  type Verdict,
+  type VerdictCounts,
+} from '../lib/sandboxRunner';
+import { judgeDuelSubmission } from './duelService';
+import { getPlayerFingerprint } from './playerFingerprintService';
+import { getPuzzleRatings } from './puzzleRatingService';
+import { type Language } from '../types';
 
 // Legacy interfaces for backward compatibility
 export interface JoinDuelResponse {
   prompt: string;
-  tests: Array<{ input: string; expected: string }>;
+  tests: PuzzleTest[];
+  signature?: FunctionSignature;
   timeLimit: number;
 }
 
 export interface SubmitDuelResponse {
   passed: boolean;
+  verdict?: Verdict;
+  verdictCounts?: VerdictCounts; // across sample, hidden and generated tests
   passedTests: number;
   totalTests: number;
   deltaWinner?: number;
@@ -24,12 +39,20 @@ export interface SubmitDuelResponse {
   };
   speedBonus?: number;
   performanceScore?: number;
+  hiddenTests?: HiddenTestSummary;
+  complexity?: ComplexityClass;
+  fuzzFailure?: TestResult; // a generated input on which the submission disagreed with the reference solution
 }
 
 export interface StartPracticeResponse {
   sessionId: string;
   prompt: string;
-  tests: Array<{ input: string; expected: string }>;
+  tests: PuzzleTest[];
+  signature?: FunctionSignature;
+  memoryLimitMb?: number;
+  languages?: Language[];
+  sqlSchema?: string;
+  starterCode?: Partial<Record<Language, string>>;
   hints: string[];
 }
 
@@ -61,6 +84,7 @@ export async function joinDuel(duelId: string): Promise<JoinDuelResponse> {
   return {
     prompt: duel.prompt,
     tests: duel.test_cases,
+    signature: duel.signature ?? undefined,
     timeLimit: duel.time_limit,
   };
 }
@@ -68,77 +92,42 @@ export async function joinDuel(duelId: string): Promise<JoinDuelResponse> {
 /**
  * Submit duel code (legacy compatibility)
  */
-export async function submitDuel(duelId: string, code: string): Promise<SubmitDuelResponse> {
+export async function submitDuel(
+  duelId: string,
+  code: string,
+  language = 'javascript'
+): Promise<SubmitDuelResponse> {
   // Get current user
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) {
     throw new Error('User not authenticated');
   }
 
-  // Get duel data
-  const { data: duel, error: duelError } = await supabase
-    .from('duels')
-    .select('*')
-    .eq('id', duelId)
-    .single();
-
-  if (duelError) {
-    throw new Error(`Failed to get duel: ${duelError.message}`);
-  }
-
-  // Run code in sandbox
-  const result = await runCodeSandbox(code, duel.test_cases);
-
-  // Create submission record
-  const { error: submissionError } = await supabase
-    .from('submissions')
-    .insert({
-      duel_id: duelId,
-      user_id: user.id,
-      code,
-      passed_tests: result.passedTests,
-      total_tests: result.totalTests,
-      runtime_ms: result.runtimeMs,
-    });
-
-  if (submissionError) {
-    throw new Error(`Failed to save submission: ${submissionError.message}`);
-  }
-
-  // If solution is correct and this is a ranked duel, handle completion
-  if (result.passed && duel.mode === 'ranked' && duel.opponent_id) {
-    // Update duel status
-    await supabase
-      .from('duels')
-      .update({
-        status: 'completed',
-        winner_id: user.id,
-        ended_at: new Date().toISOString(),
-      })
-      .eq('id', duelId);
-
-    // Mock ELO changes for now
-    return {
-      passed: true,
-      passedTests: result.passedTests,
-      totalTests: result.totalTests,
-      deltaWinner: 25 + (result.speedBonus || 0),
-      newRatings: {
-        winner: 1225 + (result.speedBonus || 0),
-        loser: 1175,
-      },
-      speedBonus: result.speedBonus,
-      performanceScore: result.performanceScore,
-    };
-  }
+  // The server judges, records and settles; the browser only reports the outcome
+  const { result, settlement } = await judgeDuelSubmission(duelId, code, language);
 
-  return {
+  const response: SubmitDuelResponse = {
     passed: result.passed,
+    verdict: result.verdict,
+    verdictCounts: result.verdictCounts,
     passedTests: result.passedTests,
     totalTests: result.totalTests,
     speedBonus: result.speedBonus,
     performanceScore: result.performanceScore,
+    hiddenTests: result.hiddenTests,
+    complexity: result.complexity?.class,
+    fuzzFailure: result.testResults.find(test => test.fuzzed),
   };
+
+  if (settlement?.settled && settlement.winner_id === user.id && settlement.winner_rating !== undefined) {
+    response.deltaWinner = settlement.winner_rating_change;
+    response.newRatings = {
+      winner: settlement.winner_rating,
+      loser: settlement.loser_rating ?? 0,
+    };
+  }
+
+  return response;
 }
 
 /**
@@ -156,11 +145,11 @@ export async function startPractice(
   }
 
   // Generate puzzle
-  const puzzle = await generatePuzzle('', '', 'practice', {
+  const puzzle = await generatePuzzle(await getPlayerFingerprint(user.id), null, 'practice', {
     topic,
     difficulty,
     mode: 'drills', // Convert to practice mode type
-  });
+  }, await getPuzzleRatings());
 
   // Create practice session
   const { data: session, error } = await supabase
@@ -171,6 +160,12 @@ export async function startPractice(
       difficulty,
       prompt: puzzle.prompt,
       test_cases: puzzle.tests,
+      signature: puzzle.signature ?? null,
+      languages: puzzle.languages ?? null,
+      sql_schema: puzzle.sqlSchema ?? null,
+      puzzle_id: puzzle.id ?? null,
+      puzzle_version: puzzle.version ?? null,
+      puzzle_seed: puzzle.seed ?? null,
       hints: puzzle.hints || [],
     })
     .select()
@@ -184,6 +179,11 @@ export async function startPractice(
     sessionId: session.id,
     prompt: puzzle.prompt,
     tests: puzzle.tests,
+    signature: puzzle.signature,
+    memoryLimitMb: puzzle.memoryLimitMb,
+    languages: puzzle.languages,
+    sqlSchema: puzzle.sqlSchema,
+    starterCode: puzzle.starterCode,
     hints: puzzle.hints || [],
   };
 }
@@ -191,7 +191,11 @@ export async function startPractice(
 /**
  * Submit practice code (legacy compatibility)
  */
-export async function submitPractice(sessionId: string, code: string): Promise<SubmitPracticeResponse> {
+export async function submitPractice(
+  sessionId: string,
+  code: string,
+  language = 'javascript'
+): Promise<SubmitPracticeResponse> {
   // Get session data
   const { data: session, error: sessionError } = await supabase
     .from('practice_sessions')
@@ -204,7 +208,10 @@ export async function submitPractice(sessionId: string, code: string): Promise<S
   }
 
   // Run code in sandbox
-  const result = await runCodeSandbox(code, session.test_cases);
+  const result = await runCodeSandbox(code, session.test_cases, language, undefined, {
+    signature: session.signature ?? undefined,
+    sqlSchema: session.sql_schema ?? undefined,
+  });
 
   // Calculate score
   const score = Math.round((result.passedTests / result.totalTests) * 100);
@@ -2,7 +2,18 @@
  * Code Execution Service - High-level interface for running code
  * Provides caching, rate limiting, and result optimization
  */
-import { runCodeSandbox, validateCode, benchmarkCode, type ExecutionResult, type TestCase } from '../lib/sandboxRunner';
+import {
+  runCodeSandbox,
+  runCustomTests,
+  validateCode,
+  benchmarkCode,
+  type BenchmarkResult,
+  type ExecutionResult,
+  type FunctionSignature,
+  type TestCase,
+  type TestResult,
+} from '../lib/sandboxRunner';
+import { validationVerdict } from '../lib/verdicts';
 
 interface CachedResult {
   result: ExecutionResult;
@@ -16,6 +27,10 @@ interface ExecutionOptions {
   enableCaching?: boolean;
   enableBenchmarking?: boolean;
   maxAttempts?: number;
+  signature?: FunctionSignature;
+  memoryLimitMb?: number;
+  sqlSchema?: string;
+  collectCoverage?: boolean; // per-line hit counts for JavaScript and TypeScript
 }
 
 class CodeExecutionService {
@@ -33,13 +48,17 @@ class CodeExecutionService {
     testCases: TestCase[],
     userId?: string,
     options: ExecutionOptions = {}
-  ): Promise<ExecutionResult & { cached?: boolean; benchmark?: any }> {
+  ): Promise<ExecutionResult & { cached?: boolean; benchmark?: BenchmarkResult }> {
     const {
       language = 'javascript',
       timeout = 5000,
       enableCaching = true,
       enableBenchmarking = false,
       maxAttempts = 3,
+      signature,
+      memoryLimitMb,
+      sqlSchema,
+      collectCoverage = false,
     } = options;
 
     // Rate limiting
@@ -48,8 +67,10 @@ class CodeExecutionService {
     }
 
     // Generate cache key
-    const codeHash = this.generateHash(code + JSON.stringify(testCases));
-    const cacheKey = `${language}-${codeHash}`;
+    const codeHash = this.generateHash(
+      code + JSON.stringify(testCases) + JSON.stringify(signature ?? null) + (sqlSchema ?? '')
+    );
+    const cacheKey = `${language}-${memoryLimitMb ?? 'default'}-${collectCoverage ? 'coverage' : 'plain'}-${codeHash}`;
 
     // Check cache
     if (enableCaching) {
@@ -70,6 +91,7 @@ class CodeExecutionService {
         runtimeMs: 0,
         wrongAttempts: 1,
         testResults: [],
+        verdict: validationVerdict(validation.errors),
         error: `Validation failed: ${validation.errors.concat(validation.securityIssues).join(', ')}`,
       };
       return errorResult;
@@ -81,13 +103,25 @@ class CodeExecutionService {
       try {
         console.log(`🚀 Executing code (attempt ${attempt}/${maxAttempts})`);
         
-        const result = await runCodeSandbox(code, testCases, language, timeout);
+        const result = await runCodeSandbox(code, testCases, language, timeout, {
+          signature,
+          memoryLimitMb,
+          sqlSchema,
+          collectCoverage,
+        });
         
         // Add benchmark if requested and code passed
-        let benchmark;
+        let benchmark: BenchmarkResult | undefined;
         if (enableBenchmarking && result.passed) {
           try {
-            benchmark = await benchmarkCode(code, testCases.slice(0, 3), 10); // Limited benchmark
+            // A few tests are enough for stable timings without keeping the player waiting
+            benchmark = await benchmarkCode(code, testCases.slice(0, 3), 30, {
+              language,
+              timeoutMs: timeout,
+              signature,
+              memoryLimitMb,
+              sqlSchema,
+            });
           } catch (error) {
             console.warn('Benchmarking failed:', error);
           }
@@ -123,12 +157,31 @@ class CodeExecutionService {
       runtimeMs: 0,
       wrongAttempts: maxAttempts,
       testResults: [],
+      verdict: 'RE',
       error: `Execution failed after ${maxAttempts} attempts: ${lastError?.message || 'Unknown error'}`,
     };
 
     return errorResult;
   }
 
+  /**
+   * Run the player's own inputs; results come back apart from ExecutionResult so they never affect scoring
+   */
+  async executeCustomTests(
+    code: string,
+    inputs: string[],
+    options: ExecutionOptions & { referenceSolution?: string; comparator?: TestCase['comparator'] } = {}
+  ): Promise<TestResult[]> {
+    const { language = 'javascript', timeout = 5000, signature, memoryLimitMb, sqlSchema, referenceSolution, comparator } = options;
+    return runCustomTests(code, inputs, language, timeout, {
+      signature,
+      memoryLimitMb,
+      sqlSchema,
+      referenceSolution,
+      comparator,
+    });
+  }
+
   /**
    * Quick validation without execution
    */
@@ -0,0 +1,53 @@
+/**
+ * Coding Style Service - Analyzes a player's own code and keeps the result on their profile
+ * The stored style feeds puzzle selection; see lib/codingStyle and lib/codeSources
+ */
+import { supabase } from '../lib/supabaseClient';
+import { analyzeCodingStyle, type CodingStyle } from '../lib/codingStyle';
+import { GitHubSource, TarballSource, type CodeSource } from '../lib/codeSources';
+
+/**
+ * Analyze code from any source and store the result as the player's coding style
+ */
+export async function analyzeAndSaveCodingStyle(userId: string, source: CodeSource): Promise<CodingStyle> {
+  const style = await analyzeCodingStyle(source);
+
+  const { error } = await supabase
+    .from('users')
+    .update({ coding_style: style })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to save coding style: ${error.message}`);
+  }
+
+  return style;
+}
+
+/**
+ * Analyze an uploaded repository archive (.tar or .tar.gz)
+ */
+export async function analyzeUploadedArchive(userId: string, archive: File): Promise<CodingStyle> {
+  return analyzeAndSaveCodingStyle(userId, new TarballSource(new Uint8Array(await archive.arrayBuffer())));
+}
+
+/**
+ * Analyze a GitHub user's public repositories through the live API
+ */
+export async function analyzeGitHubAccount(userId: string, githubUsername: string): Promise<CodingStyle> {
+  return analyzeAndSaveCodingStyle(userId, new GitHubSource(githubUsername));
+}
+
+export async function getCodingStyle(userId: string): Promise<CodingStyle | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('coding_style')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load coding style: ${error.message}`);
+  }
+
+  return data.coding_style;
+}
@@ -2,6 +2,8 @@
  * Duel Join Service - Handles joining duels and fetching duel specifications
  */
 import { supabase } from '../lib/supabaseClient';
+import { type FunctionSignature } from '../lib/structures';
+import { type Language } from '../types';
 
 export interface DuelJoinResponse {
   success: boolean;
@@ -9,7 +11,12 @@ export interface DuelJoinResponse {
     id: string;
     prompt: string;
     test_cases: any[];
+    signature?: FunctionSignature | null;
     time_limit: number;
+    memory_limit_mb?: number;
+    languages?: Language[] | null;
+    sql_schema?: string | null;
+    starter_code?: Partial<Record<Language, string>> | null;
     mode: string;
     status: string;
     creator_id: string;
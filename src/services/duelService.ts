@@ -3,9 +3,10 @@
  * Handles duel creation, joining, submissions, and results
  */
 import { supabase, type Duel, type Submission, type Profile } from '../lib/supabaseClient';
-import { runCodeSandbox } from '../lib/sandboxRunner';
+import { DEFAULT_MEMORY_LIMIT_MB, type ExecutionResult } from '../lib/sandboxRunner';
 import { generatePuzzle } from '../lib/puzzleGenerator';
-import { computeEnhancedDeltas, analyzeCodeQuality, type PerformanceMetrics } from '../lib/elo';
+import { getPlayerFingerprint } from './playerFingerprintService';
+import { getPuzzleRatings } from './puzzleRatingService';
 
 export interface CreateDuelOptions {
   mode: 'ranked' | 'casual' | 'tournament' | 'practice';
@@ -30,6 +31,23 @@ export interface SubmissionResult {
   performanceScore?: number;
 }
 
+export interface DuelSettlement {
+  settled: boolean;
+  winner_id: string | null;
+  winner_rating?: number;
+  winner_rating_change?: number;
+  loser_id?: string;
+  loser_rating?: number;
+  loser_rating_change?: number;
+}
+
+export interface DuelSubmissionResponse {
+  result: ExecutionResult;
+  submission: Submission;
+  duel: Duel;
+  settlement: DuelSettlement | null; // null unless this submission passed an active duel
+}
+
 /**
  * Create a new duel
  */
@@ -37,12 +55,12 @@ export async function createDuel(
   creatorId: string,
   options: CreateDuelOptions
 ): Promise<Duel> {
-  // Generate puzzle based on options
-  const puzzle = await generatePuzzle('', '', 'duel', {
+  // Generate puzzle based on options; the opponent is not known until someone joins
+  const puzzle = await generatePuzzle(await getPlayerFingerprint(creatorId), null, 'duel', {
     topic: options.topic,
     difficulty: options.difficulty,
     mode: 'drills', // Convert to practice mode type
-  });
+  }, await getPuzzleRatings());
 
   const duelData = {
     creator_id: creatorId,
@@ -51,7 +69,17 @@ export async function createDuel(
     topic: options.topic,
     prompt: puzzle.prompt,
     test_cases: puzzle.tests,
-    time_limit: options.timeLimit || 900, // 15 minutes default
+    signature: puzzle.signature ?? null,
+    input_generator: puzzle.inputGenerator ?? null,
+    memory_limit_mb: puzzle.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+    languages: puzzle.languages ?? null,
+    sql_schema: puzzle.sqlSchema ?? null,
+    starter_code: puzzle.starterCode ?? null,
+    puzzle_id: puzzle.id ?? null,
+    puzzle_version: puzzle.version ?? null,
+    puzzle_seed: puzzle.seed ?? null,
+    selection_reason: puzzle.selectionReason ?? null,
+    time_limit: options.timeLimit || puzzle.timeLimitSeconds || 900, // 15 minutes default
     max_attempts: options.maxAttempts || 10,
   };
 
@@ -68,6 +96,34 @@ export async function createDuel(
   return data;
 }
 
+/**
+ * Judge, record and settle a submission on the server.
+ * Hidden tests come back only as pass/fail counts.
+ */
+export async function judgeDuelSubmission(
+  duelId: string,
+  code: string,
+  language = 'javascript'
+): Promise<DuelSubmissionResponse> {
+  const { data, error } = await supabase.functions.invoke('duel-submit', {
+    body: { duelId, code, language },
+  });
+
+  if (error) {
+    throw new Error(`Failed to judge submission: ${error.message}`);
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to judge submission');
+  }
+
+  return {
+    result: data.result,
+    submission: data.submission,
+    duel: data.duel,
+    settlement: data.settlement ?? null,
+  };
+}
+
 /**
  * Join an existing duel
  */
@@ -149,7 +205,8 @@ export async function getDuelWithParticipants(duelId: string): Promise<{
 }
 
 /**
- * Submit code for a duel
+ * Submit code for a duel. The edge function judges it, records the submission
+ * and settles the duel, so the browser never writes results or ratings.
  */
 export async function submitCode(
   duelId: string,
@@ -157,172 +214,23 @@ export async function submitCode(
   code: string,
   language = 'javascript'
 ): Promise<SubmissionResult> {
-  // Get duel data
-  const { data: duel, error: duelError } = await supabase
-    .from('duels')
-    .select('*')
-    .eq('id', duelId)
-    .single();
-
-  if (duelError) {
-    throw duelError;
-  }
-
-  // Get current attempt number
-  const { data: submissions } = await supabase
-    .from('submissions')
-    .select('attempt_number')
-    .eq('duel_id', duelId)
-    .eq('user_id', userId)
-    .order('attempt_number', { ascending: false })
-    .limit(1);
-
-  const attemptNumber = (submissions?.[0]?.attempt_number || 0) + 1;
-
-  // Run code in sandbox
-  const result = await runCodeSandbox(code, duel.test_cases);
-
-  // Create submission record
-  const submissionData = {
-    duel_id: duelId,
-    user_id: userId,
-    code,
-    language,
-    passed_tests: result.passedTests,
-    total_tests: result.totalTests,
-    runtime_ms: result.runtimeMs,
-    test_results: result.testResults,
-    is_final: result.passed,
-    attempt_number: attemptNumber,
-  };
-
-  const { data: submission, error: submissionError } = await supabase
-    .from('submissions')
-    .insert(submissionData)
-    .select()
-    .single();
-
-  if (submissionError) {
-    throw submissionError;
-  }
-
-  let isWinner = false;
-  let ratingChange: number | undefined;
-  let newRating: number | undefined;
-
-  // If solution is correct, handle duel completion
-  if (result.passed) {
-    const completionTime = Math.floor(result.runtimeMs / 1000);
-    const isCreator = userId === duel.creator_id;
-
-    // Analyze code quality for ELO calculation
-    const codeQuality = analyzeCodeQuality(code);
-    
-    // Create performance metrics for enhanced ELO calculation
-    const performanceMetrics: PerformanceMetrics = {
-      executionTime: result.runtimeMs,
-      performanceScore: result.performanceScore || 75,
-      wrongSubmissions: attemptNumber - 1,
-      codeQuality,
-    };
-    // Update duel with completion data
-    const updateData = isCreator
-      ? {
-          creator_completion_time: completionTime,
-          creator_attempts: attemptNumber,
-          winner_id: userId,
-          status: 'completed' as const,
-          ended_at: new Date().toISOString(),
-        }
-      : {
-          opponent_completion_time: completionTime,
-          opponent_attempts: attemptNumber,
-          winner_id: userId,
-          status: 'completed' as const,
-          ended_at: new Date().toISOString(),
-        };
-
-    // Calculate ELO changes for ranked duels
-    if (duel.mode === 'ranked' && duel.opponent_id) {
-      const { data: profiles, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, elo_rating, display_name')
-        .in('id', [duel.creator_id, duel.opponent_id]);
-
-      if (!profileError && profiles && profiles.length === 2) {
-        const winner = profiles.find(p => p.id === userId)!;
-        const loser = profiles.find(p => p.id !== userId)!;
-
-        // Calculate enhanced ELO changes with performance bonuses
-        const eloResult = computeEnhancedDeltas(
-          winner.elo_rating,
-          loser.elo_rating,
-          performanceMetrics
-        );
-
-        ratingChange = eloResult.deltaWinner;
-        newRating = winner.elo_rating + ratingChange;
-        const loserRatingChange = eloResult.deltaLoser;
-        const loserNewRating = loser.elo_rating + loserRatingChange;
-
-        // Update player ratings in the database
-        await Promise.all([
-          supabase
-            .from('users')
-            .update({ elo_rating: newRating, rating: newRating })
-            .eq('id', userId),
-          supabase
-            .from('users')
-            .update({ elo_rating: loserNewRating, rating: loserNewRating })
-            .eq('id', loser.id)
-        ]);
-
-        // Update duel with rating changes
-        Object.assign(updateData, {
-          creator_rating_before: profiles.find(p => p.id === duel.creator_id)!.elo_rating,
-          opponent_rating_before: profiles.find(p => p.id === duel.opponent_id)!.elo_rating,
-          creator_rating_after: isCreator ? newRating : loserNewRating,
-          opponent_rating_after: isCreator ? loserNewRating : newRating,
-          creator_rating_change: isCreator ? ratingChange : loserRatingChange,
-          opponent_rating_change: isCreator ? loserRatingChange : ratingChange,
-        });
-
-        console.log('🏆 ELO Changes Applied:', {
-          winner: winner.display_name,
-          winnerChange: `${winner.elo_rating} → ${newRating} (+${ratingChange})`,
-          loser: loser.display_name,
-          loserChange: `${loser.elo_rating} → ${loserNewRating} (${loserRatingChange})`,
-          speedBonus: eloResult.speedBonus,
-          performanceMultiplier: eloResult.performanceMultiplier,
-        });
-      }
-    }
-
-    // Update duel
-    const { data: updatedDuel, error: updateError } = await supabase
-      .from('duels')
-      .update(updateData)
-      .eq('id', duelId)
-      .select()
-      .single();
+  const { result, submission, duel, settlement } = await judgeDuelSubmission(duelId, code, language);
 
-    if (updateError) {
-      throw updateError;
-    }
+  const isWinner = Boolean(settlement?.settled && settlement.winner_id === userId);
 
-    isWinner = true;
-    return { 
-      submission, 
-      duel: updatedDuel, 
-      isWinner, 
-      ratingChange, 
-      newRating,
-      speedBonus: result.speedBonus,
-      performanceScore: result.performanceScore,
-    };
+  if (!isWinner) {
+    return { submission, duel, isWinner };
   }
 
-  return { submission, duel, isWinner };
+  return {
+    submission,
+    duel,
+    isWinner,
+    ratingChange: settlement?.winner_rating_change,
+    newRating: settlement?.winner_rating,
+    speedBonus: result.speedBonus,
+    performanceScore: result.performanceScore,
+  };
 }
 
 /**
@@ -4,6 +4,9 @@
  */
 import { supabase } from '../lib/supabaseClient';
 import { generatePuzzle } from '../lib/puzzleGenerator';
+import { DEFAULT_MEMORY_LIMIT_MB } from '../lib/sandboxRunner';
+import { getPlayerFingerprint } from './playerFingerprintService';
+import { getPuzzleRatings } from './puzzleRatingService';
 
 export interface GameLobby {
   id: string;
@@ -111,11 +114,11 @@ export async function createGame(options: {
   }
 
   // Generate puzzle
-  const puzzle = await generatePuzzle('', '', 'ranked-duel', {
+  const puzzle = await generatePuzzle(await getPlayerFingerprint(user.id), null, 'ranked-duel', {
     topic: options.topic,
     difficulty: options.difficulty,
     mode: 'drills',
-  });
+  }, await getPuzzleRatings());
 
   console.log('🧩 Generated puzzle:', { 
     promptLength: puzzle.prompt.length, 
@@ -128,7 +131,17 @@ export async function createGame(options: {
     mode: options.mode,
     prompt: puzzle.prompt,
     test_cases: puzzle.tests,
-    time_limit: options.timeLimit || 900,
+    signature: puzzle.signature ?? null,
+    input_generator: puzzle.inputGenerator ?? null,
+    memory_limit_mb: puzzle.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+    languages: puzzle.languages ?? null,
+    sql_schema: puzzle.sqlSchema ?? null,
+    starter_code: puzzle.starterCode ?? null,
+    puzzle_id: puzzle.id ?? null,
+    puzzle_version: puzzle.version ?? null,
+    puzzle_seed: puzzle.seed ?? null,
+    selection_reason: puzzle.selectionReason ?? null,
+    time_limit: options.timeLimit || puzzle.timeLimitSeconds || 900,
     status: 'waiting' as const,
   };
 
@@ -4,6 +4,11 @@
  */
 import { supabase } from '../lib/supabaseClient';
 import { generatePuzzle } from '../lib/puzzleGenerator';
+import { loadPuzzleBank } from '../lib/puzzleBank';
+import { applyPuzzleRatings, recommendDifficulty } from '../lib/puzzleCalibration';
+import { DEFAULT_MEMORY_LIMIT_MB } from '../lib/sandboxRunner';
+import { getPlayerFingerprint } from './playerFingerprintService';
+import { getPuzzleRatings } from './puzzleRatingService';
 
 export interface MatchResult {
   success: boolean;
@@ -186,12 +191,25 @@ class MatcherService {
    * Create a duel between two matched players
    */
   private async createDuel(matchResult: MatchResult, mode: string): Promise<DuelCreationResult> {
-    // Generate puzzle for the duel
-    const puzzle = await generatePuzzle('', '', 'ranked-duel', {
+    // Generate a puzzle that is fair for both players
+    const [player1, player2, puzzleRatings] = await Promise.all([
+      getPlayerFingerprint(matchResult.player1_id!),
+      getPlayerFingerprint(matchResult.player2_id!),
+      getPuzzleRatings(),
+    ]);
+
+    // Aim for the calibrated difficulty closest to both players' level
+    const averageRating = ((matchResult.player1_rating ?? 1200) + (matchResult.player2_rating ?? 1200)) / 2;
+    const difficulty = recommendDifficulty(
+      applyPuzzleRatings(loadPuzzleBank().find({ mode: 'duel' }), puzzleRatings),
+      averageRating
+    );
+
+    const puzzle = await generatePuzzle(player1, player2, 'ranked-duel', {
       topic: 'algorithms',
-      difficulty: 'medium',
+      difficulty,
       mode: 'drills',
-    });
+    }, puzzleRatings);
 
     // Create duel in database
     const { data: duel, error } = await supabase
@@ -202,7 +220,17 @@ class MatcherService {
         mode,
         prompt: puzzle.prompt,
         test_cases: puzzle.tests,
-        time_limit: 900, // 15 minutes
+        signature: puzzle.signature ?? null,
+        input_generator: puzzle.inputGenerator ?? null,
+        memory_limit_mb: puzzle.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+        languages: puzzle.languages ?? null,
+        sql_schema: puzzle.sqlSchema ?? null,
+        starter_code: puzzle.starterCode ?? null,
+        puzzle_id: puzzle.id ?? null,
+        puzzle_version: puzzle.version ?? null,
+        puzzle_seed: puzzle.seed ?? null,
+        selection_reason: puzzle.selectionReason ?? null,
+        time_limit: puzzle.timeLimitSeconds ?? 900, // 15 minutes unless the puzzle sets its own
         status: 'active',
         started_at: new Date().toISOString(),
         average_rating: Math.round(((matchResult.player1_rating || 1200) + (matchResult.player2_rating || 1200)) / 2),
@@ -221,7 +249,7 @@ class MatcherService {
       player2_id: matchResult.player2_id!,
       prompt: puzzle.prompt,
       test_cases: puzzle.tests,
-      time_limit: 900,
+      time_limit: puzzle.timeLimitSeconds ?? 900,
     };
   }
 
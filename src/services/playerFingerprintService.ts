@@ -0,0 +1,50 @@
+/**
+ * Player Fingerprint Service - Builds the fingerprints used to pick fair duel puzzles
+ * Reads a player's recent duels, practice sessions, submissions and coding style; see lib/puzzleSelection
+ */
+import { supabase } from '../lib/supabaseClient';
+import { loadPuzzleBank } from '../lib/puzzleBank';
+import { buildFingerprint, type PlayerFingerprint } from '../lib/puzzleSelection';
+
+// Older history says little about how a player plays today
+const HISTORY_LIMIT = 100;
+
+/**
+ * Get a player's fingerprint. Parts of the history that fail to load are left out with a warning,
+ * since a less informed pick is better than no duel.
+ */
+export async function getPlayerFingerprint(userId: string): Promise<PlayerFingerprint> {
+  const [duelsResult, matchesResult, practiceResult, submissionsResult, userResult] = await Promise.all([
+    supabase.from('duels').select('id, puzzle_id')
+      .or(`creator_id.eq.${userId},opponent_id.eq.${userId}`)
+      .order('created_at', { ascending: false }).limit(HISTORY_LIMIT),
+    supabase.from('match_history').select('duel_id, result').eq('user_id', userId)
+      .order('created_at', { ascending: false }).limit(HISTORY_LIMIT),
+    supabase.from('practice_sessions').select('puzzle_id, completed').eq('user_id', userId)
+      .order('created_at', { ascending: false }).limit(HISTORY_LIMIT),
+    supabase.from('submissions').select('language').eq('user_id', userId)
+      .order('submitted_at', { ascending: false }).limit(HISTORY_LIMIT),
+    supabase.from('users').select('coding_style').eq('id', userId).maybeSingle(),
+  ]);
+
+  for (const [table, result] of Object.entries({
+    duels: duelsResult,
+    match_history: matchesResult,
+    practice_sessions: practiceResult,
+    submissions: submissionsResult,
+    users: userResult,
+  })) {
+    if (result.error) {
+      console.warn(`⚠️ Fingerprint for ${userId} is missing ${table}:`, result.error.message);
+    }
+  }
+
+  const results = new Map((matchesResult.data ?? []).map(match => [match.duel_id, match.result]));
+
+  return buildFingerprint(userId, {
+    duels: (duelsResult.data ?? []).map(duel => ({ puzzleId: duel.puzzle_id, result: results.get(duel.id) })),
+    practice: (practiceResult.data ?? []).map(session => ({ puzzleId: session.puzzle_id, completed: session.completed })),
+    languages: (submissionsResult.data ?? []).map(submission => submission.language),
+    codingStyle: userResult.data?.coding_style,
+  }, loadPuzzleBank());
+}
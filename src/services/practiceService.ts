@@ -5,7 +5,11 @@
 import { supabase, type PracticeSession, type UserStats } from '../lib/supabaseClient';
 import { runCodeSandbox } from '../lib/sandboxRunner';
 import { generatePuzzle } from '../lib/puzzleGenerator';
+import { loadPuzzleBank } from '../lib/puzzleBank';
+import { applyPuzzleRatings, recommendDifficulty } from '../lib/puzzleCalibration';
 import { PracticeMode, Difficulty } from '../types';
+import { getPlayerFingerprint } from './playerFingerprintService';
+import { getPuzzleRatings } from './puzzleRatingService';
 
 export interface CreatePracticeOptions {
   topic: string;
@@ -28,7 +32,7 @@ export async function startPracticeSession(
   options: CreatePracticeOptions
 ): Promise<PracticeSession> {
   // Generate puzzle based on options
-  const puzzle = await generatePuzzle('', '', 'practice', options);
+  const puzzle = await generatePuzzle(await getPlayerFingerprint(userId), null, 'practice', options, await getPuzzleRatings());
 
   const sessionData = {
     user_id: userId,
@@ -36,6 +40,10 @@ export async function startPracticeSession(
     difficulty: options.difficulty,
     prompt: puzzle.prompt,
     test_cases: puzzle.tests,
+    signature: puzzle.signature ?? null,
+    puzzle_id: puzzle.id ?? null,
+    puzzle_version: puzzle.version ?? null,
+    puzzle_seed: puzzle.seed ?? null,
     hints: puzzle.hints || [],
   };
 
@@ -72,7 +80,9 @@ export async function submitPracticeCode(
   }
 
   // Run code in sandbox
-  const result = await runCodeSandbox(code, session.test_cases);
+  const result = await runCodeSandbox(code, session.test_cases, language, undefined, {
+    signature: session.signature ?? undefined,
+  });
 
   // Calculate score (0-100)
   const baseScore = Math.round((result.passedTests / result.totalTests) * 100);
@@ -351,15 +361,25 @@ export async function getRecommendedTopics(userId: string): Promise<Array<{
   reason: string;
   priority: number;
 }>> {
-  // Get user stats and recent sessions
-  const [statsResult, sessionsResult] = await Promise.all([
+  // Get user stats, rating, recent sessions and calibrated puzzle ratings
+  const [statsResult, userResult, sessionsResult, puzzleRatings] = await Promise.all([
     supabase.from('user_stats').select('*').eq('user_id', userId).single(),
+    supabase.from('users').select('elo_rating').eq('id', userId).single(),
     supabase.from('practice_sessions').select('*').eq('user_id', userId)
       .order('created_at', { ascending: false }).limit(20),
+    getPuzzleRatings(),
   ]);
 
   const stats = statsResult.data;
   const recentSessions = sessionsResult.data || [];
+  const playerRating = userResult.data?.elo_rating ?? 1200;
+
+  // Difficulty of the practice puzzle on this topic whose calibrated rating is closest to the target
+  const practicePuzzles = applyPuzzleRatings(loadPuzzleBank().find({ mode: 'practice' }), puzzleRatings);
+  const difficultyFor = (topic: string, ratingOffset: number) => recommendDifficulty(
+    practicePuzzles.filter(puzzle => puzzle.tags.includes(topic)),
+    playerRating + ratingOffset
+  );
 
   const recommendations: Array<{
     topic: string;
@@ -382,7 +402,7 @@ export async function getRecommendedTopics(userId: string): Promise<Array<{
   unpracticedTopics.forEach(topic => {
     recommendations.push({
       topic,
-      difficulty: 'easy',
+      difficulty: difficultyFor(topic, -200),
       reason: 'New topic to explore',
       priority: 3,
     });
@@ -396,7 +416,7 @@ export async function getRecommendedTopics(userId: string): Promise<Array<{
   [...new Set(struggledTopics)].forEach(topic => {
     recommendations.push({
       topic,
-      difficulty: 'easy',
+      difficulty: difficultyFor(topic, -300),
       reason: 'Practice makes perfect',
       priority: 5,
     });
@@ -410,7 +430,7 @@ export async function getRecommendedTopics(userId: string): Promise<Array<{
   [...new Set(masteredTopics)].forEach(topic => {
     recommendations.push({
       topic,
-      difficulty: 'medium',
+      difficulty: difficultyFor(topic, 200),
       reason: 'Ready for the next challenge',
       priority: 4,
     });
@@ -0,0 +1,43 @@
+/**
+ * Puzzle Rating Service - Calibrated puzzle ratings written by the calibration job
+ * See lib/puzzleCalibration and scripts/calibratePuzzles.ts
+ */
+import { supabase, type PuzzleRatingRow } from '../lib/supabaseClient';
+import { type PuzzleRating } from '../lib/puzzleCalibration';
+
+// Ratings only change when the calibration job runs, so there is no point fetching them per duel
+const RATINGS_CACHE_MS = 5 * 60 * 1000;
+
+let cachedRatings: { ratings: PuzzleRating[]; fetchedAt: number } | null = null;
+
+/**
+ * Every calibrated puzzle rating. When they cannot be loaded, puzzles fall back to their
+ * hand-written labels, so an empty list is returned with a warning rather than an error.
+ */
+export async function getPuzzleRatings(): Promise<PuzzleRating[]> {
+  if (cachedRatings && Date.now() - cachedRatings.fetchedAt < RATINGS_CACHE_MS) {
+    return cachedRatings.ratings;
+  }
+
+  const { data, error } = await supabase.from('puzzle_ratings').select('*');
+
+  if (error) {
+    console.warn('⚠️ Puzzle ratings unavailable, using difficulty labels:', error.message);
+    return cachedRatings?.ratings ?? [];
+  }
+
+  cachedRatings = { ratings: data.map(toPuzzleRating), fetchedAt: Date.now() };
+  return cachedRatings.ratings;
+}
+
+function toPuzzleRating(row: PuzzleRatingRow): PuzzleRating {
+  return {
+    puzzleId: row.puzzle_id,
+    rating: row.rating,
+    attempts: row.attempts,
+    solves: row.solves,
+    solveRate: row.solve_rate,
+    medianSolveSeconds: row.median_solve_seconds,
+    difficulty: row.difficulty,
+  };
+}
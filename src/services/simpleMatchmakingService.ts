@@ -160,20 +160,24 @@ class SimpleMatchmakingService {
     try {
       console.log('🎮 Creating duel for match:', matchData);
 
+      // Players can only open duels as their creator, so the matched player whose client found the match
+      // opens it and the other one joins it when notified
+      if (this.userId !== matchData.player1_id && this.userId !== matchData.player2_id) {
+        throw new Error('Only a matched player can open the duel');
+      }
+
       // Create duel with only existing columns
       const duelData = {
-        creator_id: matchData.player1_id,
-        opponent_id: matchData.player2_id,
+        creator_id: this.userId,
         mode,
         prompt: 'Two Sum Challenge: Find two numbers in an array that add up to a target sum. Return their indices.',
         test_cases: [
-          {"input": "[2, 7, 11, 15], 9", "expected": "[0, 1]"},
-          {"input": "[3, 2, 4], 6", "expected": "[1, 2]"},
-          {"input": "[3, 3], 6", "expected": "[0, 1]"}
+          {"input": "[2, 7, 11, 15], 9", "expected": "[0, 1]", "comparator": {"type": "unordered"}},
+          {"input": "[3, 2, 4], 6", "expected": "[1, 2]", "comparator": {"type": "unordered"}},
+          {"input": "[3, 3], 6", "expected": "[0, 1]", "comparator": {"type": "unordered"}}
         ],
         time_limit: 900,
-        status: 'active',
-        started_at: new Date().toISOString(),
+        status: 'waiting',
       };
 
       console.log('📝 Inserting duel with data:', duelData);
@@ -276,6 +280,27 @@ class SimpleMatchmakingService {
     }
   }
 
+  /**
+   * Join a matched duel as its opponent, unless this player opened it
+   */
+  private async joinMatchedDuel(duelId: string) {
+    const { error } = await supabase
+      .from('duels')
+      .update({
+        opponent_id: this.userId,
+        status: 'active',
+        started_at: new Date().toISOString(),
+      })
+      .eq('id', duelId)
+      .eq('status', 'waiting')
+      .is('opponent_id', null)
+      .neq('creator_id', this.userId);
+
+    if (error) {
+      console.error('❌ Failed to join matched duel:', error);
+    }
+  }
+
   /**
    * Set up real-time subscription for match notifications
    */
@@ -298,9 +323,11 @@ class SimpleMatchmakingService {
     const channel = supabase.channel(channelKey);
 
     // Listen for match found events
-    channel.on('broadcast', { event: 'match_found' }, (payload) => {
+    channel.on('broadcast', { event: 'match_found' }, async (payload) => {
       console.log('🎉 Match found notification received:', payload);
-      
+
+      await this.joinMatchedDuel((payload.payload as MatchFoundPayload).duel_id);
+
       if (this.matchFoundCallback) {
         this.matchFoundCallback(payload.payload as MatchFoundPayload);
       }
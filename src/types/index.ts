@@ -12,6 +12,7 @@ export interface User {
 export type GameMode = 'ranked-duel' | 'timed-trial' | 'tournament' | 'beat-the-bot' | 'practice';
 export type PracticeMode = 'warm-up' | 'drills' | 'custom';
 export type Difficulty = 'easy' | 'medium' | 'hard';
+export type Language = 'javascript' | 'typescript' | 'python' | 'sql';
 
 export interface Duel {
   id: string;
@@ -104,7 +104,12 @@ Deno.serve(async (req) => {
           id: duel.id,
           prompt: duel.prompt,
           test_cases: duel.test_cases,
+          signature: duel.signature,
           time_limit: duel.time_limit,
+          memory_limit_mb: duel.memory_limit_mb,
+          languages: duel.languages,
+          sql_schema: duel.sql_schema,
+          starter_code: duel.starter_code,
           mode: duel.mode,
           status: duel.status,
           creator_id: duel.creator_id,
@@ -0,0 +1,277 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+// The judge shares the browser's sandbox runner; sloppy imports resolve its extensionless paths
+import { runCodeSandbox, type TestCase } from '../../../src/lib/sandboxRunner.ts';
+import { SandboxHost } from '../../../src/lib/sandboxHost.ts';
+import { analyzeCodeQuality, computeEnhancedDeltas } from '../../../src/lib/elo.ts';
+import { DEFAULT_PUZZLE_LANGUAGES } from '../../../src/lib/languages.ts';
+import { loadServerPuzzle } from '../../../src/lib/serverPuzzleBank.ts';
+
+interface SubmitDuelRequest {
+  duelId: string;
+  code: string;
+  language?: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const TEST_TIMEOUT_MS = 5000;
+
+/**
+ * Seconds from the start of the duel until now; started_at is stamped with the database clock
+ */
+function completionSeconds(startedAt: string): number {
+  return Math.max(0, Math.floor((Date.now() - Date.parse(startedAt)) / 1000));
+}
+
+Deno.serve(async (req) => {
+  console.log('📞 Duel submit API called:', req.method);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Hidden tests are only readable with the service role
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The player is taken from their session token, never from the request body
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'User not authenticated' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { duelId, code, language = 'javascript' }: SubmitDuelRequest = await req.json();
+
+    if (!duelId || typeof code !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Missing duelId or code' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: duel, error: duelError } = await supabaseClient
+      .from('duels')
+      .select('*')
+      .eq('id', duelId)
+      .single();
+
+    if (duelError || !duel) {
+      console.error('❌ Database error:', duelError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to fetch duel: ${duelError?.message ?? 'not found'}` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (duel.creator_id !== user.id && duel.opponent_id !== user.id) {
+      console.error('❌ User not authorized:', { userId: user.id, duelId });
+      return new Response(
+        JSON.stringify({ success: false, error: 'You are not a participant in this duel' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Everything the submission is judged against comes from the published puzzle, never from the
+    // duel row, whose test columns the browser that created the duel wrote
+    const puzzle = duel.puzzle_id && duel.puzzle_version
+      ? await loadServerPuzzle(supabaseClient, duel.puzzle_id, duel.puzzle_version, duel.puzzle_seed)
+      : null;
+
+    if (!puzzle) {
+      console.error('❌ Duel puzzle not published:', { duelId, puzzleId: duel.puzzle_id, version: duel.puzzle_version });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This duel\'s puzzle is not available to the judge' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const sampleTests: TestCase[] = puzzle.tests;
+    const hiddenTests: TestCase[] = puzzle.hiddenTests ?? [];
+
+    if (sampleTests.length + hiddenTests.length === 0) {
+      console.error('❌ Duel puzzle has no tests:', { duelId, puzzleId: puzzle.id });
+      return new Response(
+        JSON.stringify({ success: false, error: 'This duel\'s puzzle has no tests to judge against' }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const languages: string[] = puzzle.languages?.length ? puzzle.languages : DEFAULT_PUZZLE_LANGUAGES;
+    if (!languages.includes(language)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `This puzzle only accepts ${languages.join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Without workers the sandbox runs code in this isolate, next to the service role key
+    if (!SandboxHost.isolated) {
+      console.error('❌ Sandbox workers unavailable; refusing to judge in-process');
+      return new Response(
+        JSON.stringify({ success: false, error: 'The judge is unavailable' }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('⚖️ Judging submission:', {
+      duelId,
+      language,
+      sampleCount: sampleTests.length,
+      hiddenCount: hiddenTests.length,
+    });
+
+    const result = await runCodeSandbox(
+      code,
+      [...sampleTests, ...hiddenTests],
+      language,
+      TEST_TIMEOUT_MS,
+      {
+        signature: puzzle.signature,
+        inputGenerator: puzzle.inputGenerator,
+        memoryLimitMb: puzzle.memoryLimitMb,
+        sqlSchema: puzzle.sqlSchema,
+        referenceSolution: puzzle.referenceSolution,
+        fuzz: puzzle.fuzz,
+      }
+    );
+
+    // Samples are returned in full; hidden tests only as counts.
+    // A fuzzed failure comes after both and is shown, since the player needs the input to fix their code.
+    const hiddenEnd = sampleTests.length + hiddenTests.length;
+    const hiddenResults = result.testResults.slice(sampleTests.length, hiddenEnd);
+    const publicResult = {
+      ...result,
+      testResults: [
+        ...result.testResults.slice(0, sampleTests.length),
+        ...result.testResults.slice(hiddenEnd),
+      ],
+      hiddenTests: {
+        passed: hiddenResults.filter(test => test.passed).length,
+        total: hiddenTests.length,
+      },
+    };
+
+    // attempt_number is assigned by the number_submission_attempt trigger
+    const { data: submission, error: submissionError } = await supabaseClient
+      .from('submissions')
+      .insert({
+        duel_id: duelId,
+        user_id: user.id,
+        code,
+        language,
+        passed_tests: result.passedTests,
+        total_tests: result.totalTests,
+        verdict: result.verdict ?? null,
+        runtime_ms: result.runtimeMs,
+        test_results: publicResult.testResults,
+        is_final: result.passed,
+      })
+      .select()
+      .single();
+
+    if (submissionError) {
+      console.error('❌ Failed to save submission:', submissionError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to save submission: ${submissionError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const attemptNumber: number = submission.attempt_number;
+    let settlement = null;
+
+    if (result.passed && duel.status === 'active') {
+      let winnerDelta = 0;
+      let loserDelta = 0;
+
+      if (duel.mode === 'ranked' && duel.opponent_id) {
+        const loserId = duel.creator_id === user.id ? duel.opponent_id : duel.creator_id;
+        const { data: players } = await supabaseClient
+          .from('users')
+          .select('id, elo_rating')
+          .in('id', [user.id, loserId]);
+
+        const winner = players?.find(player => player.id === user.id);
+        const loser = players?.find(player => player.id === loserId);
+
+        if (winner && loser) {
+          const eloResult = computeEnhancedDeltas(winner.elo_rating, loser.elo_rating, {
+            complexity: result.complexity?.class,
+            performanceScore: result.performanceScore || 75,
+            wrongSubmissions: attemptNumber - 1,
+            codeQuality: analyzeCodeQuality(code),
+          });
+          winnerDelta = eloResult.deltaWinner;
+          loserDelta = eloResult.deltaLoser;
+        }
+      }
+
+      // Winner, duel status and both ratings change in one transaction
+      const { data: settled, error: settleError } = await supabaseClient.rpc('settle_duel', {
+        p_duel_id: duelId,
+        p_winner_id: user.id,
+        p_completion_time: completionSeconds(duel.started_at ?? duel.created_at),
+        p_attempts: attemptNumber,
+        p_winner_delta: winnerDelta,
+        p_loser_delta: loserDelta,
+      });
+
+      if (settleError || !settled?.success) {
+        console.error('❌ Failed to settle duel:', settleError ?? settled);
+        return new Response(
+          JSON.stringify({ success: false, error: `Failed to settle duel: ${settleError?.message ?? settled?.error}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      settlement = settled;
+      console.log('🏆 Duel settled:', settlement);
+    }
+
+    const { data: updatedDuel } = await supabaseClient
+      .from('duels')
+      .select('*')
+      .eq('id', duelId)
+      .single();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        result: publicResult,
+        submission,
+        duel: updatedDuel ?? duel,
+        settlement,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Duel submit error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,107 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+// Generation shares the app's provider and validation code; sloppy imports resolve its extensionless paths
+import { createPuzzleProvider, generateProviderPuzzle, type PuzzleRequest } from '../../../src/lib/puzzleProviders.ts';
+import { parsePuzzleFiles } from '../../../src/lib/puzzleBank.ts';
+import { storeServerPuzzle } from '../../../src/lib/serverPuzzleBank.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const MODES = ['duel', 'practice'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+Deno.serve(async (req) => {
+  console.log('📞 Puzzle generate API called:', req.method);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Generated puzzles are stored where only the service role can read their hidden tests
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'User not authenticated' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const provider = createPuzzleProvider({
+      provider: Deno.env.get('PUZZLE_PROVIDER'),
+      llamaServerUrl: Deno.env.get('LLAMA_SERVER_URL'),
+      timeoutMs: Number(Deno.env.get('PUZZLE_GENERATION_TIMEOUT')) || undefined,
+    });
+
+    if (!provider) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Puzzle generation is not configured' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { mode, difficulty, topic, seed }: PuzzleRequest = await req.json();
+
+    if (!MODES.includes(mode) || (difficulty !== undefined && !DIFFICULTIES.includes(difficulty))) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid mode or difficulty' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let generated;
+    try {
+      generated = await generateProviderPuzzle(
+        provider,
+        { mode, difficulty, topic: typeof topic === 'string' ? topic : undefined, seed },
+        `generated-${crypto.randomUUID()}`
+      );
+    } catch (error) {
+      console.warn(`⚠️ ${provider.name} puzzle rejected:`, error instanceof Error ? error.message : error);
+      return new Response(
+        JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Generated puzzle was rejected' }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { puzzle, files } = generated;
+    await storeServerPuzzle(supabaseClient, puzzle, files, 'generated');
+
+    // Parsed without hidden.json, the puzzle holds exactly what the bundled bank would hold
+    const publicPuzzle = parsePuzzleFiles(puzzle.id, { puzzleJson: files.puzzleJson, promptMarkdown: files.promptMarkdown });
+
+    console.log('🧩 Generated puzzle stored:', { id: puzzle.id, provider: provider.name });
+
+    return new Response(
+      JSON.stringify({ success: true, puzzle: publicPuzzle, provider: provider.name }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('❌ Puzzle generate error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
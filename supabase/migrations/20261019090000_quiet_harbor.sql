@@ -0,0 +1,16 @@
+/*
+  # Typed puzzle signatures
+
+  Puzzles that take linked lists, trees, graphs or matrices declare a parameter
+  schema so the sandbox can build real structures from the JSON test data.
+
+  1. Changes
+    - `duels.signature` (jsonb): `{ "params": [...], "returns": ... }`, null for untyped puzzles
+    - `practice_sessions.signature` (jsonb): same shape
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS signature jsonb;
+
+ALTER TABLE practice_sessions
+ADD COLUMN IF NOT EXISTS signature jsonb;
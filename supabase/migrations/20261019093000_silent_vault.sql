@@ -0,0 +1,36 @@
+/*
+  # Hidden duel tests
+
+  Puzzles ship visible sample tests in `duels.test_cases` and keep the rest
+  here, where only the service role (the duel-submit edge function) can read them.
+
+  1. New Tables
+    - `duel_hidden_tests`
+      - `duel_id` (uuid, primary key, references duels)
+      - `test_cases` (jsonb, hidden test cases array)
+      - `created_at` (timestamp)
+  2. Security
+    - Enable RLS on `duel_hidden_tests`
+    - Duel participants may insert hidden tests when creating a duel
+    - No SELECT policy: hidden tests are never readable from the browser
+*/
+
+CREATE TABLE IF NOT EXISTS duel_hidden_tests (
+  duel_id uuid PRIMARY KEY REFERENCES duels(id) ON DELETE CASCADE,
+  test_cases jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE duel_hidden_tests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Duel participants can store hidden tests"
+  ON duel_hidden_tests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM duels
+      WHERE duels.id = duel_hidden_tests.duel_id
+        AND (duels.creator_id = auth.uid()::text OR duels.opponent_id = auth.uid()::text)
+    )
+  );
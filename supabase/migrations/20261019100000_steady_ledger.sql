@@ -0,0 +1,188 @@
+/*
+  # Server-authoritative duel settlement
+
+  Duel results used to be written from the browser, so any client could set
+  `winner_id` or its own rating. The duel-submit edge function now judges
+  submissions and settles duels through `settle_duel` using the service role.
+
+  1. Changes
+    - `submissions` gains `language`, `test_results`, `is_final` and `attempt_number`
+      where an older schema is missing them
+  2. Functions
+    - `settle_duel` locks the duel, records the winner and applies both rating
+      changes in one transaction; a duel can only be settled once
+    - `protect_duel_settlement` / `protect_user_ratings` triggers reject
+      result and rating changes made with a browser role
+  3. Security
+    - Clients can no longer insert submissions directly
+    - `settle_duel` is only executable by the service role
+*/
+
+ALTER TABLE submissions
+ADD COLUMN IF NOT EXISTS language text DEFAULT 'javascript',
+ADD COLUMN IF NOT EXISTS test_results jsonb DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS is_final boolean DEFAULT false,
+ADD COLUMN IF NOT EXISTS attempt_number integer DEFAULT 1;
+
+-- Submissions are recorded by the duel-submit edge function only
+DROP POLICY IF EXISTS "Anyone can create submissions" ON submissions;
+DROP POLICY IF EXISTS "Users can create their own submissions" ON submissions;
+
+-- Settle a duel in favour of the first passing submission
+CREATE OR REPLACE FUNCTION settle_duel(
+  p_duel_id uuid,
+  p_winner_id uuid,
+  p_completion_time integer,
+  p_attempts integer,
+  p_winner_delta integer DEFAULT 0,
+  p_loser_delta integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  duel_record duels%ROWTYPE;
+  is_creator boolean;
+  loser_id uuid;
+  winner_before integer;
+  loser_before integer;
+  winner_after integer;
+  loser_after integer;
+BEGIN
+  -- Lock the duel so concurrent passing submissions settle it exactly once
+  SELECT * INTO duel_record
+  FROM duels
+  WHERE id = p_duel_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Duel not found');
+  END IF;
+
+  IF duel_record.status = 'completed' OR duel_record.winner_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'settled', false,
+      'winner_id', duel_record.winner_id
+    );
+  END IF;
+
+  is_creator := duel_record.creator_id::text = p_winner_id::text;
+
+  IF NOT is_creator AND duel_record.opponent_id::text IS DISTINCT FROM p_winner_id::text THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Winner is not a participant in this duel');
+  END IF;
+
+  UPDATE duels
+  SET
+    status = 'completed',
+    winner_id = p_winner_id,
+    ended_at = now(),
+    creator_completion_time = CASE WHEN is_creator THEN p_completion_time ELSE creator_completion_time END,
+    creator_attempts = CASE WHEN is_creator THEN p_attempts ELSE creator_attempts END,
+    opponent_completion_time = CASE WHEN is_creator THEN opponent_completion_time ELSE p_completion_time END,
+    opponent_attempts = CASE WHEN is_creator THEN opponent_attempts ELSE p_attempts END
+  WHERE id = p_duel_id;
+
+  -- Only ranked duels between two players move ratings
+  IF duel_record.mode <> 'ranked' OR duel_record.opponent_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'settled', true,
+      'winner_id', p_winner_id
+    );
+  END IF;
+
+  loser_id := CASE WHEN is_creator THEN duel_record.opponent_id::uuid ELSE duel_record.creator_id::uuid END;
+
+  -- Lock both players in a fixed order to avoid deadlocks between duels
+  PERFORM 1 FROM users
+  WHERE id IN (p_winner_id, loser_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT elo_rating INTO winner_before FROM users WHERE id = p_winner_id;
+  SELECT elo_rating INTO loser_before FROM users WHERE id = loser_id;
+
+  winner_after := winner_before + p_winner_delta;
+  loser_after := loser_before + p_loser_delta;
+
+  UPDATE users SET elo_rating = winner_after, rating = winner_after WHERE id = p_winner_id;
+  UPDATE users SET elo_rating = loser_after, rating = loser_after WHERE id = loser_id;
+
+  UPDATE duels
+  SET
+    creator_rating_before = CASE WHEN is_creator THEN winner_before ELSE loser_before END,
+    opponent_rating_before = CASE WHEN is_creator THEN loser_before ELSE winner_before END,
+    creator_rating_after = CASE WHEN is_creator THEN winner_after ELSE loser_after END,
+    opponent_rating_after = CASE WHEN is_creator THEN loser_after ELSE winner_after END,
+    creator_rating_change = CASE WHEN is_creator THEN p_winner_delta ELSE p_loser_delta END,
+    opponent_rating_change = CASE WHEN is_creator THEN p_loser_delta ELSE p_winner_delta END
+  WHERE id = p_duel_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'settled', true,
+    'winner_id', p_winner_id,
+    'winner_rating', winner_after,
+    'winner_rating_change', p_winner_delta,
+    'loser_id', loser_id,
+    'loser_rating', loser_after,
+    'loser_rating_change', p_loser_delta
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION settle_duel(uuid, uuid, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION settle_duel(uuid, uuid, integer, integer, integer, integer) TO service_role;
+
+-- Reject duel results written with a browser (anon or authenticated) role
+CREATE OR REPLACE FUNCTION protect_duel_settlement()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND (
+    NEW.winner_id IS DISTINCT FROM OLD.winner_id OR
+    NEW.creator_rating_before IS DISTINCT FROM OLD.creator_rating_before OR
+    NEW.creator_rating_after IS DISTINCT FROM OLD.creator_rating_after OR
+    NEW.creator_rating_change IS DISTINCT FROM OLD.creator_rating_change OR
+    NEW.opponent_rating_before IS DISTINCT FROM OLD.opponent_rating_before OR
+    NEW.opponent_rating_after IS DISTINCT FROM OLD.opponent_rating_after OR
+    NEW.opponent_rating_change IS DISTINCT FROM OLD.opponent_rating_change
+  ) THEN
+    RAISE EXCEPTION 'Duel results can only be recorded by the judge';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_duel_settlement ON duels;
+CREATE TRIGGER protect_duel_settlement
+  BEFORE UPDATE ON duels
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_duel_settlement();
+
+-- Reject rating changes written with a browser (anon or authenticated) role
+CREATE OR REPLACE FUNCTION protect_user_ratings()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND (
+    NEW.elo_rating IS DISTINCT FROM OLD.elo_rating OR
+    NEW.rating IS DISTINCT FROM OLD.rating
+  ) THEN
+    RAISE EXCEPTION 'Ratings can only be changed by duel settlement';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_user_ratings ON users;
+CREATE TRIGGER protect_user_ratings
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_ratings();
@@ -0,0 +1,13 @@
+/*
+  # Input generators for complexity estimation
+
+  Puzzles can describe how to build an input of size n, so the judge can time a
+  passing submission at several sizes and fit its time-complexity class.
+
+  1. Changes
+    - `duels.input_generator` (jsonb): `{ "generator": "(n) => [...]", "sizes": [...] }`,
+      null when the puzzle has no generator
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS input_generator jsonb;
@@ -0,0 +1,16 @@
+/*
+  # Per-duel memory limits
+
+  Submissions are now measured for memory while they run, and a call that uses
+  more than the puzzle allows fails with a "Memory Limit Exceeded" verdict.
+
+  1. Changes
+    - `duels.memory_limit_mb` (integer, megabytes), copied from the puzzle when the
+      duel is created; existing duels get the 256MB default
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS memory_limit_mb integer NOT NULL DEFAULT 256;
+
+ALTER TABLE duels DROP CONSTRAINT IF EXISTS valid_memory_limit;
+ALTER TABLE duels ADD CONSTRAINT valid_memory_limit CHECK (memory_limit_mb > 0 AND memory_limit_mb <= 2048);
@@ -0,0 +1,20 @@
+/*
+  # SQL puzzles and per-puzzle languages
+
+  Puzzles can now be answered with a SQL query, run against an in-memory SQLite
+  database built from the puzzle schema and each test's seed rows. Puzzles also
+  list the languages they accept, so a SQL puzzle only offers SQL.
+
+  1. Changes
+    - `duels.languages` (text[]): accepted submission languages, null for the defaults
+    - `duels.sql_schema` (text): CREATE TABLE and shared INSERT statements for SQL puzzles
+    - `practice_sessions.languages` / `practice_sessions.sql_schema`: same meaning
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS languages text[],
+ADD COLUMN IF NOT EXISTS sql_schema text;
+
+ALTER TABLE practice_sessions
+ADD COLUMN IF NOT EXISTS languages text[],
+ADD COLUMN IF NOT EXISTS sql_schema text;
@@ -0,0 +1,16 @@
+/*
+  # Differential fuzzing references
+
+  Puzzles may carry a reference solution and a random input generator. When a duel
+  submission is judged, generated inputs are run through both and the first input
+  where they disagree is reported as an extra failing test.
+
+  1. Changes
+    - `duel_hidden_tests.reference_solution` (text, JavaScript reference solution)
+    - `duel_hidden_tests.fuzz` (jsonb, generator, run count and comparator)
+    - Both stay behind the table's existing RLS, so only the judge can read them
+*/
+
+ALTER TABLE duel_hidden_tests
+ADD COLUMN IF NOT EXISTS reference_solution text,
+ADD COLUMN IF NOT EXISTS fuzz jsonb;
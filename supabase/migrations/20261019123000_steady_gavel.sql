@@ -0,0 +1,25 @@
+/*
+  # Submission verdicts
+
+  Submissions record the judge's overall verdict so results can be told apart
+  without re-running them: accepted, wrong answer, runtime error, time limit,
+  memory limit, compile error or security violation.
+
+  1. Changes
+    - `submissions.verdict` (text, one of AC, WA, RE, TLE, MLE, CE, SV)
+    - Existing rows keep a null verdict
+*/
+
+ALTER TABLE submissions
+ADD COLUMN IF NOT EXISTS verdict text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'submissions_verdict_check'
+  ) THEN
+    ALTER TABLE submissions
+    ADD CONSTRAINT submissions_verdict_check
+    CHECK (verdict IS NULL OR verdict IN ('AC', 'WA', 'RE', 'TLE', 'MLE', 'CE', 'SV'));
+  END IF;
+END $$;
@@ -0,0 +1,26 @@
+/*
+  # Puzzle bank references
+
+  Puzzles now live as files under puzzles/, each with an id and a revision number.
+  Duels and practice sessions record which puzzle and revision they were created from,
+  and duels keep the puzzle's per-language starter code for the editor.
+
+  1. Changes
+    - `duels.puzzle_id` (text, puzzle bank id)
+    - `duels.puzzle_version` (integer, puzzle revision)
+    - `duels.starter_code` (jsonb, language → starter code)
+    - `practice_sessions.puzzle_id` (text, puzzle bank id)
+    - `practice_sessions.puzzle_version` (integer, puzzle revision)
+    - Existing rows keep null values and fall back to the generic starter code
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS puzzle_id text,
+ADD COLUMN IF NOT EXISTS puzzle_version integer,
+ADD COLUMN IF NOT EXISTS starter_code jsonb;
+
+ALTER TABLE practice_sessions
+ADD COLUMN IF NOT EXISTS puzzle_id text,
+ADD COLUMN IF NOT EXISTS puzzle_version integer;
+
+CREATE INDEX IF NOT EXISTS idx_duels_puzzle_id ON duels(puzzle_id);
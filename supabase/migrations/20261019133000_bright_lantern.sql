@@ -0,0 +1,17 @@
+/*
+  # Puzzle template seeds
+
+  Templated puzzles are generated from a seed, so the same puzzle revision can show up with a
+  different story, function name and hidden tests in every duel. Storing the seed lets both
+  players, replays and re-judging rebuild exactly the same instance.
+
+  1. Changes
+    - `duels.puzzle_seed` (bigint, template seed; null for puzzles without a template)
+    - `practice_sessions.puzzle_seed` (bigint, template seed; null for puzzles without a template)
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS puzzle_seed bigint;
+
+ALTER TABLE practice_sessions
+ADD COLUMN IF NOT EXISTS puzzle_seed bigint;
@@ -0,0 +1,14 @@
+/*
+  # Fair puzzle selection
+
+  Duel puzzles are now picked from each player's history: puzzles neither player has seen,
+  in their preferred languages, with tags that favour neither of them. The duel keeps a record
+  of why its puzzle was chosen so picks can be audited and the weighting tuned.
+
+  1. Changes
+    - `duels.selection_reason` (jsonb): candidates considered, per-player tag strengths and a summary;
+      null for duels created before this change
+*/
+
+ALTER TABLE duels
+ADD COLUMN IF NOT EXISTS selection_reason jsonb;
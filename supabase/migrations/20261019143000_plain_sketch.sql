@@ -0,0 +1,13 @@
+/*
+  # Coding style on user profiles
+
+  Players can share their own code, as an uploaded repository archive, a local checkout or
+  their public GitHub repositories. The analysis (language mix, function length, pattern
+  frequencies and complexity level) is kept on the profile and used when picking puzzles.
+
+  1. Changes
+    - `users.coding_style` (jsonb): latest analysis, null until the player shares code
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS coding_style jsonb;
@@ -0,0 +1,41 @@
+/*
+  # Calibrated puzzle ratings
+
+  Hand-written difficulty labels often disagree with how players actually do. The calibration
+  job (npm run puzzles:calibrate) replays every duel played on a bank puzzle as a game between
+  the player and the puzzle and stores an Elo-style rating per puzzle on the player scale.
+  Puzzle selection, matchmaking and practice recommendations use the calibrated difficulty.
+
+  1. New Tables
+    - `puzzle_ratings`
+      - `puzzle_id` (text, primary key, puzzle bank id)
+      - `rating` (integer, Elo-style puzzle rating)
+      - `attempts` / `solves` (integer)
+      - `solve_rate` (real, 0-1)
+      - `median_solve_seconds` (integer, null until someone solves it)
+      - `difficulty` (text, calibrated label; the hand-written one until enough attempts)
+      - `updated_at` (timestamp)
+  2. Security
+    - Enable RLS on `puzzle_ratings`
+    - Anyone can read ratings
+    - No write policies: only the calibration job, using the service role, writes them
+*/
+
+CREATE TABLE IF NOT EXISTS puzzle_ratings (
+  puzzle_id text PRIMARY KEY,
+  rating integer NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  solves integer NOT NULL DEFAULT 0,
+  solve_rate real NOT NULL DEFAULT 0,
+  median_solve_seconds integer,
+  difficulty text NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE puzzle_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read puzzle ratings"
+  ON puzzle_ratings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
@@ -0,0 +1,40 @@
+/*
+  # Server-side puzzle packages
+
+  Hidden tests and reference solutions used to ship in the app bundle and were copied into
+  `duel_hidden_tests` by the browser that created the duel. They now live in each puzzle's
+  hidden.json, which only reaches the server: npm run puzzles:publish copies every puzzle
+  directory into `puzzle_packages`, and the puzzle-generate edge function stores generated
+  puzzles there. The judge loads a duel's puzzle by `puzzle_id`, `puzzle_version` and `puzzle_seed`.
+
+  1. New Tables
+    - `puzzle_packages`
+      - `id` (text, puzzle id)
+      - `version` (integer, puzzle revision)
+      - `puzzle_json` (text, puzzle.json contents)
+      - `hidden_json` (text, hidden.json contents; null when the puzzle has none)
+      - `prompt_markdown` (text, prompt.md contents)
+      - `source` (text, `bank` or `generated`)
+      - `published_at` (timestamp)
+      - Primary key on (`id`, `version`), so older revisions stay available to duels that used them
+  2. Removed Tables
+    - `duel_hidden_tests`, whose rows were written by clients
+  3. Security
+    - Enable RLS on `puzzle_packages`
+    - No policies: only the service role (publish script and edge functions) reads or writes packages
+*/
+
+CREATE TABLE IF NOT EXISTS puzzle_packages (
+  id text NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  puzzle_json text NOT NULL,
+  hidden_json text,
+  prompt_markdown text NOT NULL,
+  source text NOT NULL DEFAULT 'bank' CHECK (source IN ('bank', 'generated')),
+  published_at timestamptz DEFAULT now(),
+  PRIMARY KEY (id, version)
+);
+
+ALTER TABLE puzzle_packages ENABLE ROW LEVEL SECURITY;
+
+DROP TABLE IF EXISTS duel_hidden_tests;
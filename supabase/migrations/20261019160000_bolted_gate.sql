@@ -0,0 +1,122 @@
+/*
+  # Judge-owned duel puzzles and attempt numbers
+
+  Any browser could update any duel, including the tests and puzzle it is judged against,
+  and the judge numbered attempts by counting earlier submissions before inserting, so two
+  concurrent submissions could share a number. Duel puzzles are now only written when the
+  duel is created, the judge loads them from `puzzle_packages`, and attempts are numbered
+  by the database.
+
+  1. Changes
+    - Existing `submissions.attempt_number` values are renumbered per duel and player in
+      submission order
+    - Unique index on `submissions` (`duel_id`, `user_id`, `attempt_number`)
+  2. Functions
+    - `number_submission_attempt` trigger gives every new submission the next attempt
+      number for its duel and player, serialised per duel and player
+    - `protect_duel_puzzle` trigger rejects browser-role changes to a duel's puzzle, tests
+      and limits, and stamps `started_at` with the server clock
+  3. Security
+    - Drop "Anyone can update duels" and "Participants can update their duels"
+    - Authenticated users can update duels they take part in and open duels they join
+*/
+
+-- Renumber duplicates left by concurrent submissions before the index is created
+WITH numbered AS (
+  SELECT id, row_number() OVER (PARTITION BY duel_id, user_id ORDER BY submitted_at, id) AS attempt
+  FROM submissions
+)
+UPDATE submissions
+SET attempt_number = numbered.attempt
+FROM numbered
+WHERE submissions.id = numbered.id
+  AND submissions.attempt_number IS DISTINCT FROM numbered.attempt;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_submissions_attempt
+  ON submissions(duel_id, user_id, attempt_number);
+
+-- Attempt numbers come from the database; the lock makes concurrent submissions by one player wait their turn
+CREATE OR REPLACE FUNCTION number_submission_attempt()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.duel_id::text), hashtext(NEW.user_id::text));
+
+  SELECT COALESCE(MAX(attempt_number), 0) + 1
+  INTO NEW.attempt_number
+  FROM submissions
+  WHERE duel_id = NEW.duel_id
+    AND user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS number_submission_attempt ON submissions;
+CREATE TRIGGER number_submission_attempt
+  BEFORE INSERT ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION number_submission_attempt();
+
+-- Browsers may join, start and cancel duels, but not change what they are judged against
+CREATE OR REPLACE FUNCTION protect_duel_puzzle()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- The service role and database sessions without a JWT write duels unchecked
+  IF auth.role() IS NULL OR auth.role() NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.started_at IS NOT NULL THEN
+      NEW.started_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.prompt IS DISTINCT FROM OLD.prompt OR
+     NEW.test_cases IS DISTINCT FROM OLD.test_cases OR
+     NEW.signature IS DISTINCT FROM OLD.signature OR
+     NEW.input_generator IS DISTINCT FROM OLD.input_generator OR
+     NEW.memory_limit_mb IS DISTINCT FROM OLD.memory_limit_mb OR
+     NEW.languages IS DISTINCT FROM OLD.languages OR
+     NEW.sql_schema IS DISTINCT FROM OLD.sql_schema OR
+     NEW.starter_code IS DISTINCT FROM OLD.starter_code OR
+     NEW.puzzle_id IS DISTINCT FROM OLD.puzzle_id OR
+     NEW.puzzle_version IS DISTINCT FROM OLD.puzzle_version OR
+     NEW.puzzle_seed IS DISTINCT FROM OLD.puzzle_seed OR
+     NEW.time_limit IS DISTINCT FROM OLD.time_limit
+  THEN
+    RAISE EXCEPTION 'A duel''s puzzle cannot be changed after it is created';
+  END IF;
+
+  -- The judge measures completion time from started_at, so it follows the server clock and is set once
+  IF OLD.started_at IS NOT NULL AND NEW.started_at IS DISTINCT FROM OLD.started_at THEN
+    RAISE EXCEPTION 'A duel''s start time cannot be changed';
+  END IF;
+  IF OLD.started_at IS NULL AND NEW.started_at IS NOT NULL THEN
+    NEW.started_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_duel_puzzle ON duels;
+CREATE TRIGGER protect_duel_puzzle
+  BEFORE INSERT OR UPDATE ON duels
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_duel_puzzle();
+
+DROP POLICY IF EXISTS "Anyone can update duels" ON duels;
+DROP POLICY IF EXISTS "Participants can update their duels" ON duels;
+
+CREATE POLICY "Participants can update their duels"
+  ON duels
+  FOR UPDATE
+  TO authenticated
+  USING (status = 'waiting' OR auth.uid()::text IN (creator_id, opponent_id))
+  WITH CHECK (auth.uid()::text IN (creator_id, opponent_id));
@@ -0,0 +1,107 @@
+/*
+  # Browser-written duels cannot carry results
+
+  Any browser could still insert a duel with any players, status and winner, and a participant
+  could update a duel's players, mode and status, so wins and Elo changes could be forged
+  without the judge. Browsers may now only open duels as their creator, join open duels
+  and start them; players, mode, status and results are otherwise left to the judge.
+
+  1. Functions
+    - `protect_duel_settlement` now also runs on insert: browser-role inserts must be an open
+      duel of the current user without an opponent or a result
+    - On update it also rejects browser-role changes to `creator_id`, `mode` and `ended_at`, to
+      `opponent_id` other than the current user joining an open duel, and to `status` other
+      than starting a joined duel or its creator cancelling one nobody joined
+  2. Security
+    - Drop "Anyone can create duels" and "Authenticated users can create duels"
+    - Authenticated users can insert open duels they create
+*/
+
+-- Browsers may open, join, start and cancel duels; everything else is recorded by the judge
+CREATE OR REPLACE FUNCTION protect_duel_settlement()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- The service role and database sessions without a JWT write duels unchecked
+  IF auth.role() IS NULL OR auth.role() NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.creator_id IS DISTINCT FROM auth.uid()::text OR
+       NEW.status IS DISTINCT FROM 'waiting' OR
+       NEW.opponent_id IS NOT NULL OR
+       NEW.winner_id IS NOT NULL OR
+       NEW.ended_at IS NOT NULL OR
+       NEW.creator_rating_before IS NOT NULL OR
+       NEW.creator_rating_after IS NOT NULL OR
+       COALESCE(NEW.creator_rating_change, 0) <> 0 OR
+       NEW.opponent_rating_before IS NOT NULL OR
+       NEW.opponent_rating_after IS NOT NULL OR
+       COALESCE(NEW.opponent_rating_change, 0) <> 0
+    THEN
+      RAISE EXCEPTION 'Duels can only be opened by their creator, without an opponent or a result';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.winner_id IS DISTINCT FROM OLD.winner_id OR
+     NEW.ended_at IS DISTINCT FROM OLD.ended_at OR
+     NEW.creator_rating_before IS DISTINCT FROM OLD.creator_rating_before OR
+     NEW.creator_rating_after IS DISTINCT FROM OLD.creator_rating_after OR
+     NEW.creator_rating_change IS DISTINCT FROM OLD.creator_rating_change OR
+     NEW.opponent_rating_before IS DISTINCT FROM OLD.opponent_rating_before OR
+     NEW.opponent_rating_after IS DISTINCT FROM OLD.opponent_rating_after OR
+     NEW.opponent_rating_change IS DISTINCT FROM OLD.opponent_rating_change
+  THEN
+    RAISE EXCEPTION 'Duel results can only be recorded by the judge';
+  END IF;
+
+  IF NEW.creator_id IS DISTINCT FROM OLD.creator_id OR NEW.mode IS DISTINCT FROM OLD.mode THEN
+    RAISE EXCEPTION 'A duel''s creator and mode cannot be changed';
+  END IF;
+
+  -- An opponent is set once, by the player joining an open duel
+  IF NEW.opponent_id IS DISTINCT FROM OLD.opponent_id AND (
+       OLD.opponent_id IS NOT NULL OR
+       OLD.status IS DISTINCT FROM 'waiting' OR
+       NEW.opponent_id IS DISTINCT FROM auth.uid()::text OR
+       NEW.opponent_id = NEW.creator_id
+     )
+  THEN
+    RAISE EXCEPTION 'Only a player joining an open duel can become its opponent';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+       (OLD.status = 'waiting' AND NEW.status = 'active' AND NEW.opponent_id IS NOT NULL) OR
+       (OLD.status = 'waiting' AND NEW.status = 'cancelled' AND NEW.opponent_id IS NULL AND
+        OLD.creator_id = auth.uid()::text)
+     )
+  THEN
+    RAISE EXCEPTION 'Only the judge can change a duel''s status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_duel_settlement ON duels;
+CREATE TRIGGER protect_duel_settlement
+  BEFORE INSERT OR UPDATE ON duels
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_duel_settlement();
+
+DROP POLICY IF EXISTS "Anyone can create duels" ON duels;
+DROP POLICY IF EXISTS "Authenticated users can create duels" ON duels;
+
+CREATE POLICY "Players can open duels"
+  ON duels
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    creator_id = auth.uid()::text AND
+    status = 'waiting' AND
+    opponent_id IS NULL AND
+    winner_id IS NULL
+  );
@@ -4,7 +4,11 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The sandbox worker lazily imports its language runtimes, which needs ES module workers
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'pyodide'],
   },
 });